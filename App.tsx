@@ -1,127 +1,433 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, ComposedChart, Line, Area, Legend, ReferenceLine
 } from 'recharts';
 import { 
   Upload, TrendingUp, DollarSign, ShoppingCart, 
-  ArrowUpRight, ArrowDownRight, Info, AlertCircle, Sparkles, Plus, Trash2, Calendar, CheckCircle2, RefreshCw
+  ArrowUpRight, ArrowDownRight, Info, RotateCcw, Bell, Plus, Trash2, Calendar, CheckCircle2, RefreshCw
 } from 'lucide-react';
-import { parseCSV } from './utils/csvParser';
-import { geminiService } from './services/geminiService';
+import { parseCSVFile } from './utils/csvFile';
+import { toCSV } from './utils/csvParser';
+import { getTodayStr, parseDateStr, addDays, daysBetween, DEFAULT_TIMEZONE } from './utils/dateUtils';
+import { 
+  presetRange, matchPreset, bucketKey, bucketLabel, bucketRange, DatePreset, DATE_PRESET_LABELS, Granularity, GRANULARITY_LABELS 
+} from './utils/dateRanges';
+import { expenseAmountInRange, expensesByCategory, RECURRENCE_LABELS } from './utils/expenses';
+import { pnlWaterfall } from './utils/pnl';
+import { computePeriodStats, dailySales, profitTrend, PeriodInput } from './utils/stats';
+import { auditGranularity, AuditInput, INSIGHT_PROVIDER_IDS, MAX_SAVED_AUDITS, SEVERITY_ORDER } from './utils/audit';
+import { evaluateAlertRules, detectAnomalies, sortAlerts, Alert, ANOMALY_WINDOW } from './utils/alerts';
+import { aggregateCampaigns } from './utils/campaigns';
+import { runChatTool, ChatDataSource } from './utils/chatTools';
+import { aggregateProducts } from './utils/products';
+import { comparisonRange, computeDelta, CompareMode, COMPARE_MODE_LABELS, Delta } from './utils/comparison';
+import { 
+  createCostLookup, isPriced, diffCogsImport, applyCogsImport, cogsToCsvRows, CogsDiffRow, COGS_CSV_HEADERS 
+} from './utils/cogs';
+import { 
+  CURRENCIES, createConverter, formatCurrency, convertOrder, convertSalesRecord, convertAd, convertSettlement, 
+  detectHeaderCurrency, isCurrency, mapExchangeRateRows, rateKey 
+} from './utils/currency';
+import { mapShopifyOrderRows } from './utils/shopifyOrders';
+import { INSIGHT_PROVIDERS } from './services/insightProvider';
+import { normalizeSettlementStatus } from './utils/reconciliation';
+import { 
+  mergeRecords, orderKey, salesKey, adKey, settlementKey, ImportMode, ImportSummary, IMPORT_MODE_LABELS 
+} from './utils/importMerge';
+import { storageService } from './services/storageService';
+import ReconciliationView from './components/ReconciliationView';
+import CampaignsView from './components/CampaignsView';
+import AttributionView from './components/AttributionView';
+import ProductsView from './components/ProductsView';
+import OrderExplorer from './components/OrderExplorer';
+import AiAuditView from './components/AiAuditView';
+import AuditChat from './components/AuditChat';
+import AlertCenter from './components/AlertCenter';
+import AlertRulesEditor from './components/AlertRulesEditor';
+import CogsLedger from './components/CogsLedger';
+import CogsImportPreview from './components/CogsImportPreview';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import BackupPanel from './components/BackupPanel';
+import FeeRulesEditor from './components/FeeRulesEditor';
+import ExchangeRatesPanel from './components/ExchangeRatesPanel';
+import ColumnMappingWizard from './components/ColumnMappingWizard';
+import ValidationReportModal from './components/ValidationReportModal';
+import { validateRows, ValidationReport } from './utils/importValidation';
+import { 
+  isMappableType, suggestMapping, detectProfile, applyMapping, MappableReportType 
+} from './utils/columnMapping';
+import { createBackup, parseBackup, BackupImportResult } from './utils/backup';
 import { 
   ShopifyOrder, ShopifySalesRecord, MetaAdReport, ManualExpense, ProductCOGS, 
-  DashboardStats, ReportType, Currency 
+  SettlementReport, FeeRule, ExchangeRate, ImportProfile, AttributionRule, AiAudit, ChatMessage, InsightProviderId, InsightSeverity, AlertRule, ColumnMapping, DashboardStats, ReportType, Currency, Workspace, WorkspaceData, ExpenseRecurrence 
 } from './types';
 
-// Constants
-const USD_TO_PKR = 280; // Example static rate
+const TREND_COSTS = [
+  { key: 'adSpend', label: 'Ads', color: '#f43f5e' },
+  { key: 'cogs', label: 'COGS', color: '#f59e0b' },
+  { key: 'fees', label: 'Fees', color: '#10b981' },
+  { key: 'overheads', label: 'Overheads', color: '#8b5cf6' },
+];
+
+// The mock provider only returns canned answers, so it is offered in development builds only
+const SELECTABLE_PROVIDER_IDS = INSIGHT_PROVIDER_IDS.filter(id => id !== 'mock' || import.meta.env.DEV);
 
-// Utility to get date strings
-const getTodayStr = () => new Date().toISOString().split('T')[0];
-const getFirstOfMonthStr = () => {
-  const d = new Date();
-  return new Date(d.getFullYear(), d.getMonth(), 1).toISOString().split('T')[0];
+const ALERT_MARKER_COLORS: Record<InsightSeverity, string> = {
+  critical: '#e11d48',
+  warning: '#f59e0b',
+  info: '#94a3b8',
+  positive: '#10b981',
 };
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'reports' | 'manual' | 'ai'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'products' | 'campaigns' | 'attribution' | 'payouts' | 'alerts' | 'reports' | 'manual' | 'ai'>('dashboard');
   const [currency, setCurrency] = useState<Currency>('PKR');
+  const [storeCurrency, setStoreCurrency] = useState<Currency>('PKR');
+  const [adCurrency, setAdCurrency] = useState<Currency>('USD');
+  const [timezone, setTimezone] = useState<string>(DEFAULT_TIMEZONE);
+  const [insightProvider, setInsightProvider] = useState<InsightProviderId>('gemini');
+  const [restockRefunds, setRestockRefunds] = useState(true);
   const [orders, setOrders] = useState<ShopifyOrder[]>([]);
   const [salesRecords, setSalesRecords] = useState<ShopifySalesRecord[]>([]);
   const [ads, setAds] = useState<MetaAdReport[]>([]);
+  const [settlements, setSettlements] = useState<SettlementReport[]>([]);
   const [expenses, setExpenses] = useState<ManualExpense[]>([]);
   const [cogs, setCogs] = useState<ProductCOGS[]>([]);
-  const [aiInsight, setAiInsight] = useState<string>('');
+  const [feeRules, setFeeRules] = useState<FeeRule[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+  const [attributionRules, setAttributionRules] = useState<AttributionRule[]>([]);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [pendingImport, setPendingImport] = useState<{
+    type: MappableReportType; fileName: string; headers: string[]; rows: any[]; mapping: ColumnMapping; profile?: ImportProfile;
+  } | null>(null);
+  const [pendingValidation, setPendingValidation] = useState<{
+    type: MappableReportType; fileName: string; rows: any[]; report: ValidationReport; headerCurrency?: Currency;
+  } | null>(null);
+  const [pendingCogsDiff, setPendingCogsDiff] = useState<CogsDiffRow[] | null>(null);
+  const [aiAudits, setAiAudits] = useState<AiAudit[]>([]);
+  const [selectedAuditId, setSelectedAuditId] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [auditError, setAuditError] = useState('');
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [isChatting, setIsChatting] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<Record<string, boolean>>({});
+  const [uploadProgress, setUploadProgress] = useState<Partial<Record<ReportType, number>>>({});
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [importSummaries, setImportSummaries] = useState<Partial<Record<ReportType, ImportSummary>>>({});
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string>('');
+  const [isHydrated, setIsHydrated] = useState(false);
+  const restoreStarted = useRef(false);
+  const [lastBackupImport, setLastBackupImport] = useState<BackupImportResult | null>(null);
+  const [backupError, setBackupError] = useState<string>('');
   
   // Date range states
   const [startDate, setStartDate] = useState<string>('2024-01-01');
-  const [endDate, setEndDate] = useState<string>(getTodayStr());
+  const [endDate, setEndDate] = useState<string>(getTodayStr(DEFAULT_TIMEZONE));
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [compareMode, setCompareMode] = useState<CompareMode>('off');
+  const [customCompare, setCustomCompare] = useState({ start: '', end: '' });
 
-  // Formatting Helper
-  const formatVal = (amount: number) => {
-    const val = currency === 'PKR' ? amount * USD_TO_PKR : amount;
-    return new Intl.NumberFormat(currency === 'PKR' ? 'en-PK' : 'en-US', {
-      style: 'currency',
-      currency: currency,
-      maximumFractionDigits: 0
-    }).format(val);
+  // Workspace persistence
+  const workspaceData = useMemo<WorkspaceData>(() => ({
+    orders, salesRecords, ads, settlements, expenses, cogs, feeRules, exchangeRates, importProfiles, attributionRules, aiAudits, alertRules, 
+    settings: { currency, storeCurrency, adCurrency, timezone, insightProvider, restockRefunds }
+  }), [orders, salesRecords, ads, settlements, expenses, cogs, feeRules, exchangeRates, importProfiles, attributionRules, aiAudits, alertRules, currency, storeCurrency, adCurrency, timezone, insightProvider, restockRefunds]);
+
+  const applyWorkspaceData = (data: WorkspaceData) => {
+    setOrders(data.orders);
+    setSalesRecords(data.salesRecords);
+    setAds(data.ads);
+    setSettlements(data.settlements);
+    setExpenses(data.expenses);
+    setCogs(data.cogs);
+    setFeeRules(data.feeRules);
+    setExchangeRates(data.exchangeRates);
+    setImportProfiles(data.importProfiles);
+    setAttributionRules(data.attributionRules);
+    setAiAudits(data.aiAudits);
+    setAlertRules(data.alertRules);
+    setChatMessages([]);
+    setCurrency(data.settings.currency);
+    setStoreCurrency(data.settings.storeCurrency);
+    setAdCurrency(data.settings.adCurrency);
+    setTimezone(data.settings.timezone);
+    setInsightProvider(data.settings.insightProvider);
+    setRestockRefunds(data.settings.restockRefunds);
+    setImportSummaries({});
+  };
+
+  // Loads a workspace without saving the current one first (used after deletes)
+  const activateWorkspace = async (id: string) => {
+    setIsHydrated(false);
+    const data = await storageService.loadWorkspaceData(id);
+    applyWorkspaceData(data);
+    setActiveWorkspaceId(id);
+    await storageService.setActiveWorkspaceId(id);
+    setIsHydrated(true);
+    return data;
   };
 
-  // Helper to filter data by date
-  const isWithinRange = (dateStr: string) => {
+  useEffect(() => {
+    // StrictMode mounts twice in development; only seed the default workspace once
+    if (restoreStarted.current) return;
+    restoreStarted.current = true;
+    (async () => {
+      let list = await storageService.listWorkspaces();
+      if (list.length === 0) {
+        list = [await storageService.createWorkspace('Default Workspace')];
+      }
+      const storedId = await storageService.getActiveWorkspaceId();
+      setWorkspaces(list);
+      const data = await activateWorkspace(list.find(ws => ws.id === storedId)?.id || list[0].id);
+      // The initial range ends on today in the workspace timezone rather than in UTC
+      setEndDate(getTodayStr(data.settings.timezone));
+    })().catch(err => console.error("Workspace restore error:", err));
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated || !activeWorkspaceId) return;
+    const timer = setTimeout(() => {
+      storageService.saveWorkspaceData(activeWorkspaceId, workspaceData).catch(err => console.error("Workspace save error:", err));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [workspaceData, activeWorkspaceId, isHydrated]);
+
+  // Workspace actions pause autosave while they touch IndexedDB; a failed save or delete must switch it back on
+  const runWorkspaceAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error("Workspace error:", err);
+      alert("The workspace could not be updated. Your browser storage may be full or blocked.");
+    } finally {
+      setIsHydrated(true);
+    }
+  };
+
+  const switchWorkspace = (id: string) => runWorkspaceAction(async () => {
+    if (id === activeWorkspaceId) return;
+    setIsHydrated(false);
+    await storageService.saveWorkspaceData(activeWorkspaceId, workspaceData);
+    await activateWorkspace(id);
+  });
+
+  const createWorkspace = () => runWorkspaceAction(async () => {
+    const name = prompt("Name for the new workspace (e.g. brand or fiscal year):")?.trim();
+    if (!name) return;
+    const ws = await storageService.createWorkspace(name);
+    setWorkspaces(await storageService.listWorkspaces());
+    setIsHydrated(false);
+    await storageService.saveWorkspaceData(activeWorkspaceId, workspaceData);
+    await activateWorkspace(ws.id);
+  });
+
+  const duplicateWorkspace = () => runWorkspaceAction(async () => {
+    const current = workspaces.find(ws => ws.id === activeWorkspaceId);
+    const name = prompt("Name for the duplicated workspace:", `${current?.name || 'Workspace'} (copy)`)?.trim();
+    if (!name) return;
+    await storageService.saveWorkspaceData(activeWorkspaceId, workspaceData);
+    const ws = await storageService.duplicateWorkspace(activeWorkspaceId, name);
+    setWorkspaces(await storageService.listWorkspaces());
+    await activateWorkspace(ws.id);
+  });
+
+  const renameWorkspace = () => runWorkspaceAction(async () => {
+    const current = workspaces.find(ws => ws.id === activeWorkspaceId);
+    const name = prompt("Rename workspace:", current?.name || '')?.trim();
+    if (!name) return;
+    await storageService.renameWorkspace(activeWorkspaceId, name);
+    setWorkspaces(await storageService.listWorkspaces());
+  });
+
+  const deleteWorkspace = () => runWorkspaceAction(async () => {
+    const current = workspaces.find(ws => ws.id === activeWorkspaceId);
+    if (workspaces.length <= 1 || !current) return;
+    if (!confirm(`Delete workspace "${current.name}" and all of its data? This cannot be undone.`)) return;
+    setIsHydrated(false);
+    await storageService.deleteWorkspace(current.id);
+    const list = await storageService.listWorkspaces();
+    setWorkspaces(list);
+    await activateWorkspace(list[0].id);
+  });
+
+  const confirmCogsImport = (includeUnknown: boolean) => {
+    if (!pendingCogsDiff) return;
+    setCogs(applyCogsImport(cogs, pendingCogsDiff, includeUnknown));
+    setPendingCogsDiff(null);
+  };
+
+  const exportCogs = () => {
+    const blob = new Blob([toCSV(COGS_CSV_HEADERS, cogsToCsvRows(cogs))], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `hydrict-cogs-${getTodayStr()}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exportBackup = () => {
+    const name = workspaces.find(ws => ws.id === activeWorkspaceId)?.name || 'Workspace';
+    const blob = new Blob([JSON.stringify(createBackup(name, workspaceData), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `hydrict-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${getTodayStr()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBackupError('');
+    setLastBackupImport(null);
+    try {
+      const result = parseBackup(await file.text());
+      // Restore into a fresh workspace so the current data is never overwritten
+      const ws = await storageService.createWorkspace(result.workspaceName, result.data);
+      setWorkspaces(await storageService.listWorkspaces());
+      await switchWorkspace(ws.id);
+      setLastBackupImport(result);
+    } catch (err) {
+      console.error("Backup import error:", err);
+      setBackupError(err instanceof Error ? err.message : "The backup could not be imported.");
+    }
+  };
+
+  // Every amount below is already converted into the display currency
+  const convert = useMemo(() => createConverter(exchangeRates, currency), [exchangeRates, currency]);
+  const convertUsd = (amount: number, date: string) => convert(amount, 'USD', date);
+
+  // Presets resolve "today" in the workspace timezone, not the browser's
+  const today = getTodayStr(timezone);
+  const activePreset = matchPreset(startDate, endDate, today);
+  const applyPreset = (preset: DatePreset) => {
+    const range = presetRange(preset, today);
+    setStartDate(range.start);
+    setEndDate(range.end);
+  };
+
+  // Formatting Helper
+  const formatVal = (amount: number) => formatCurrency(amount, currency);
+
+  // Records are stored as calendar days in the timezone set when they were imported, so plain string comparison is exact
+  const isWithinRange = (dateStr: string, from = startDate, to = endDate) => {
     if (!dateStr) return false;
-    const d = new Date(dateStr);
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    // Normalize to midnight for fair comparison
-    d.setHours(0,0,0,0);
-    start.setHours(0,0,0,0);
-    end.setHours(0,0,0,0);
-    return d >= start && d <= end;
+    const day = dateStr.slice(0, 10);
+    return day >= from && day <= to;
   };
 
   // Filtered Data Sets
-  const filteredOrders = useMemo(() => orders.filter(o => isWithinRange(o.date)), [orders, startDate, endDate]);
-  const filteredSales = useMemo(() => salesRecords.filter(s => isWithinRange(s.date)), [salesRecords, startDate, endDate]);
-  const filteredAds = useMemo(() => ads.filter(a => isWithinRange(a.date)), [ads, startDate, endDate]);
+  const filteredOrders = useMemo(() => orders.filter(o => isWithinRange(o.date)).map(o => convertOrder(o, convert, currency)), [orders, startDate, endDate, convert, currency]);
+  const filteredSales = useMemo(() => salesRecords.filter(s => isWithinRange(s.date)).map(s => convertSalesRecord(s, convert, currency)), [salesRecords, startDate, endDate, convert, currency]);
+  const filteredAds = useMemo(() => ads.filter(a => isWithinRange(a.date)).map(a => convertAd(a, convert, currency)), [ads, startDate, endDate, convert, currency]);
+
+  // Settlements are matched to orders rather than dated, so they follow the orders they pay out
+  const convertedSettlements = useMemo(() => settlements.map(s => convertSettlement(s, convert, currency)), [settlements, convert, currency]);
+
+  // Unit costs are entered in USD; each order uses the cost in effect on its date, converted at that day's rate
+  const unitCost = useMemo(() => {
+    const costOn = createCostLookup(cogs);
+    return (sku: string, date: string) => convertUsd(costOn(sku, date), date);
+  }, [cogs, convert]);
+
+  // The ledger seeds detected SKUs unpriced; a cost deliberately set to zero is not missing
+  const hasCogs = useMemo(() => {
+    const known = new Set(cogs.filter(isPriced).map(c => c.sku));
+    return (sku: string) => known.has(sku);
+  }, [cogs]);
 
   // Statistics Calculation
-  const stats = useMemo<DashboardStats>(() => {
-    // Priority: Sales Records for accuracy, fallback to Orders
-    const totalSales = filteredSales.length > 0 
-      ? filteredSales.reduce((acc, curr) => acc + curr.totalSales, 0)
-      : filteredOrders.reduce((acc, curr) => acc + curr.total, 0);
+  const periodInput = useMemo<PeriodInput>(() => ({
+    startDate, endDate, orders: filteredOrders, sales: filteredSales, ads: filteredAds, 
+    settlements: convertedSettlements, expenses, feeRules, unitCost, convertUsd, restockRefunds
+  }), [filteredOrders, filteredSales, filteredAds, convertedSettlements, expenses, feeRules, unitCost, restockRefunds, startDate, endDate, convert]);
+  const period = useMemo(() => computePeriodStats(periodInput), [periodInput]);
+  const { stats, billableOrders, feeLines, reconciliation } = period;
+  const trend = useMemo(() => profitTrend(periodInput, granularity), [periodInput, granularity]);
 
-    const totalAdSpend = filteredAds.reduce((acc, curr) => acc + curr.spend, 0);
-    
-    const totalShipping = filteredSales.length > 0
-      ? filteredSales.reduce((acc, curr) => acc + curr.shipping, 0)
-      : filteredOrders.reduce((acc, curr) => acc + curr.shipping, 0);
-    
-    const totalExpenses = expenses.reduce((acc, curr) => acc + curr.amount, 0);
-    
-    // COGS must be calculated from Orders (where SKU is present)
-    let totalCogsVal = 0;
-    filteredOrders.forEach(order => {
-      order.lineItems.forEach(item => {
-        const itemCogs = cogs.find(c => c.sku === item.sku)?.cogs || 0;
-        totalCogsVal += itemCogs * item.quantity;
-      });
+  // Any other window (comparison, chat queries) runs through exactly the same pipeline as the selected range
+  const periodInputFor = (start: string, end: string): PeriodInput => ({
+    startDate: start, endDate: end,
+    orders: orders.filter(o => isWithinRange(o.date, start, end)).map(o => convertOrder(o, convert, currency)),
+    sales: salesRecords.filter(s => isWithinRange(s.date, start, end)).map(s => convertSalesRecord(s, convert, currency)),
+    ads: ads.filter(a => isWithinRange(a.date, start, end)).map(a => convertAd(a, convert, currency)),
+    settlements: convertedSettlements, expenses, feeRules, unitCost, convertUsd, restockRefunds
+  });
+
+  const compareRange = useMemo(() => comparisonRange(compareMode, startDate, endDate, customCompare), [compareMode, startDate, endDate, customCompare]);
+  const comparePeriod = useMemo(() => {
+    if (!compareRange) return null;
+    const input = periodInputFor(compareRange.start, compareRange.end);
+    const { stats } = computePeriodStats(input);
+    return { range: compareRange, stats, daily: dailySales(input.orders, input.sales) };
+  }, [compareRange, orders, salesRecords, ads, convertedSettlements, expenses, feeRules, unitCost, restockRefunds, convert, currency]);
+
+  // Alerts are only evaluated where they are shown: the chart markers and the alert center
+  const showsAlerts = activeTab === 'dashboard' || activeTab === 'alerts';
+
+  // Anomalies need a trailing baseline, so the daily series starts before the selected range
+  const alertSeries = useMemo(
+    () => showsAlerts ? profitTrend(periodInputFor(addDays(startDate, -ANOMALY_WINDOW), endDate), 'day') : null,
+    [showsAlerts, orders, salesRecords, ads, convertedSettlements, expenses, feeRules, unitCost, restockRefunds, startDate, endDate, convert, currency]
+  );
+  const alerts = useMemo(() => alertSeries ? sortAlerts([
+    ...evaluateAlertRules(alertRules, alertSeries, stats, { startDate, endDate, convertUsd, formatMoney: formatVal }),
+    ...detectAnomalies(alertSeries, startDate, formatVal)
+  ]) : [], [alertRules, alertSeries, stats, startDate, endDate, convert, currency]);
+
+  // One marker per chart bucket, coloured by the most severe alert in it
+  const alertMarkers = useMemo(() => {
+    const worst = new Map<string, Alert>();
+    alerts.forEach(alert => {
+      if (!alert.markerDate) return;
+      const key = bucketKey(alert.markerDate, granularity);
+      const current = worst.get(key);
+      if (!current || SEVERITY_ORDER.indexOf(alert.severity) < SEVERITY_ORDER.indexOf(current.severity)) worst.set(key, alert);
     });
+    return Array.from(worst.entries()).map(([date, alert]) => ({ date, severity: alert.severity, title: alert.title }));
+  }, [alerts, granularity]);
 
-    const totalFees = totalSales * 0.03; // Estimated gateway/Shopify fees
-    const netProfit = totalSales - totalAdSpend - totalCogsVal - totalShipping - totalExpenses - totalFees;
-    const roas = totalAdSpend > 0 ? totalSales / totalAdSpend : 0;
-    const netMargin = totalSales > 0 ? (netProfit / totalSales) * 100 : 0;
-
-    return {
-      totalSales,
-      totalOrders: filteredOrders.length,
-      totalAdSpend,
-      totalCogs: totalCogsVal,
-      totalShipping,
-      totalFees,
-      netProfit,
-      roas,
-      netMargin
-    };
-  }, [filteredOrders, filteredSales, filteredAds, expenses, cogs]);
+  const kpiDelta = (key: keyof DashboardStats, format: (n: number) => string, higherIsBetter = true): KPIDelta | undefined => {
+    if (!comparePeriod) return undefined;
+    const delta = computeDelta(stats[key], comparePeriod.stats[key]);
+    return { ...delta, label: `${delta.abs > 0 ? '+' : ''}${format(delta.abs)}`, good: delta.abs === 0 || (delta.abs > 0) === higherIsBetter };
+  };
+
+  const waterfall = useMemo(() => pnlWaterfall(stats), [stats]);
+
+  const overheadBreakdown = useMemo(() => expensesByCategory(expenses, startDate, endDate, convertUsd), [expenses, startDate, endDate, convert]);
+
+  const updateExpense = (id: string, patch: Partial<ManualExpense>) => {
+    setExpenses(expenses.map(e => e.id === id ? { ...e, ...patch } : e));
+  };
 
   const chartData = useMemo(() => {
-    const dailyData: Record<string, any> = {};
-    const sourceData = filteredSales.length > 0 ? filteredSales.map(s => ({ date: s.date, sales: s.totalSales })) 
-                                              : filteredOrders.map(o => ({ date: o.date, sales: o.total }));
-    
-    sourceData.forEach(item => {
-      if (!dailyData[item.date]) dailyData[item.date] = { date: item.date, sales: 0 };
-      dailyData[item.date].sales += item.sales;
+    const buckets: Record<string, any> = {};
+    bucketRange(startDate, endDate, granularity).forEach(key => {
+      buckets[key] = { date: key, sales: 0, ...(comparePeriod ? { compareSales: 0 } : {}) };
+    });
+    dailySales(filteredOrders, filteredSales).forEach((sales, date) => {
+      const key = bucketKey(date, granularity);
+      if (buckets[key]) buckets[key].sales += sales;
     });
+
+    // Comparison days are shifted onto the selected range so both series line up bucket by bucket
+    if (comparePeriod) {
+      const offset = daysBetween(comparePeriod.range.start, startDate) - 1;
+      comparePeriod.daily.forEach((sales, date) => {
+        const key = bucketKey(addDays(date, offset), granularity);
+        if (buckets[key]) buckets[key].compareSales += sales;
+      });
+    }
     
-    return Object.values(dailyData).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }, [filteredOrders, filteredSales]);
+    return Object.values(buckets);
+  }, [filteredOrders, filteredSales, comparePeriod, startDate, endDate, granularity]);
 
   // Dynamic SKU extraction from orders for Manual COGS
   useEffect(() => {
@@ -138,99 +444,180 @@ export default function App() {
       const next = [...prev];
       uniqueSkus.forEach((title, sku) => {
         if (!next.find(c => c.sku === sku)) {
-          next.push({ sku, productName: title, cogs: 0 });
+          next.push({ sku, productName: title, cogs: 0, history: [], priced: false });
         }
       });
       return next;
     });
   }, [orders]);
 
+  // Rows arrive keyed by canonical column names; `headerCurrency` comes from headers like "Amount spent (USD)"
+  const importRows = (type: ReportType, data: any[], headerCurrency?: Currency) => {
+    console.log(`Importing ${type} with ${data.length} rows...`);
+
+    // Records merge into the latest state so an upload that finishes while another is applied loses nothing;
+    // the summary describes the change against the data that was on screen
+    const merge = <T,>(setRecords: React.Dispatch<React.SetStateAction<T[]>>, existing: T[], incoming: T[], keyOf: (r: T) => string, dateOf: (r: T) => string) => {
+      setRecords(prev => mergeRecords(prev, incoming, keyOf, dateOf, importMode).records);
+      setImportSummaries(prev => ({ ...prev, [type]: mergeRecords(existing, incoming, keyOf, dateOf, importMode).summary }));
+    };
+
+    if (type === 'shopify_orders') {
+      const mappedOrders = mapShopifyOrderRows(data, storeCurrency, timezone);
+      merge(setOrders, orders, mappedOrders, orderKey, o => o.date);
+    } else if (type === 'shopify_sales') {
+      const mappedSales: ShopifySalesRecord[] = data.map(row => ({
+        date: parseDateStr(row.Day || row.Date) || getTodayStr(timezone),
+        grossSales: parseFloat(row['Gross sales']) || 0,
+        discounts: parseFloat(row.Discounts) || 0,
+        returns: parseFloat(row.Returns) || 0,
+        netSales: parseFloat(row['Net sales']) || 0,
+        shipping: parseFloat(row.Shipping) || 0,
+        taxes: parseFloat(row.Taxes) || 0,
+        totalSales: parseFloat(row['Total sales'] || row.Total) || 0,
+        channel: row['Sales channel'] || undefined,
+        currency: isCurrency(row.Currency) ? row.Currency : storeCurrency
+      }));
+      merge(setSalesRecords, salesRecords, mappedSales, salesKey, s => s.date);
+    } else if (type === 'meta_ads') {
+      const mappedAds: MetaAdReport[] = data.map(row => ({
+        date: parseDateStr(row.Date || row['Reporting starts']) || getTodayStr(timezone),
+        campaignName: row['Campaign name'] || 'Unknown',
+        spend: parseFloat(row['Amount spent (USD)'] || row.Spend || row['Amount spent'] || 0),
+        impressions: parseInt(row.Impressions) || 0,
+        clicks: parseInt(row['Link clicks'] || row.Clicks) || 0,
+        currency: isCurrency(row.Currency) ? row.Currency : headerCurrency || adCurrency
+      }));
+      merge(setAds, ads, mappedAds, adKey, a => a.date);
+    } else if (type === 'settlement') {
+      const mappedSettlements: SettlementReport[] = data
+        .map(row => ({
+          orderName: row['Order Name'] || row['Order'] || row['Order ID'] || row.Reference || '',
+          amountReceived: parseFloat(row['Amount Received'] || row['Net Amount'] || row.Amount) || 0,
+          fees: parseFloat(row.Fees || row.Fee || row.Commission || row['Delivery Charges']) || 0,
+          status: normalizeSettlementStatus(row.Status || row['Payment Status'] || ''),
+          date: parseDateStr(row['Settlement Date'] || row.Date, timezone) || undefined,
+          currency: isCurrency(row.Currency) ? row.Currency : storeCurrency
+        }))
+        .filter(s => s.orderName);
+      // Undated settlement lines are never dropped by a range replacement
+      merge(setSettlements, settlements, mappedSettlements, settlementKey, s => s.date || '');
+    } else if (type === 'exchange_rates') {
+      const mappedRates = mapExchangeRateRows(data);
+      merge(setExchangeRates, exchangeRates, mappedRates, rateKey, r => r.date);
+    } else if (type === 'cogs') {
+      // Cost sheets are reviewed as a diff before they touch the ledger
+      setPendingCogsDiff(diffCogsImport(cogs, data));
+      return;
+    }
+
+    setUploadStatus(prev => ({ ...prev, [type]: true }));
+    setTimeout(() => setUploadStatus(prev => ({ ...prev, [type]: false })), 3000);
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, type: ReportType) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      try {
-        const text = event.target?.result as string;
-        const data = parseCSV(text);
-        
-        if (data.length === 0) {
-          alert("CSV is empty or could not be parsed.");
-          return;
-        }
+    // Clear the input now so the same file can be picked again while this one parses
+    e.target.value = '';
 
-        console.log(`Parsing ${type} with ${data.length} rows...`);
-
-        if (type === 'shopify_orders') {
-          const mappedOrders: ShopifyOrder[] = data.map((row, idx) => ({
-            id: row.Id || row.Name || idx.toString(),
-            name: row.Name || `Order-${idx}`,
-            date: (row['Created at'] || row.Date || "").split(' ')[0] || getTodayStr(),
-            total: parseFloat(row.Total || row['Total price']) || 0,
-            subtotal: parseFloat(row.Subtotal || row['Subtotal price']) || 0,
-            tax: parseFloat(row.Tax || row['Total tax']) || 0,
-            shipping: parseFloat(row.Shipping || row['Shipping cost']) || 0,
-            status: row['Financial Status'] || row.Status || 'Paid',
-            lineItems: [{ 
-              sku: row.SKU || row['Lineitem sku'] || 'UNKNOWN', 
-              title: row['Lineitem name'] || row.Title || 'Product', 
-              quantity: parseInt(row['Lineitem quantity'] || row.Quantity) || 1, 
-              price: parseFloat(row['Lineitem price'] || row.Price) || 0 
-            }]
-          }));
-          setOrders(prev => [...prev, ...mappedOrders]);
-        } else if (type === 'shopify_sales') {
-          const mappedSales: ShopifySalesRecord[] = data.map(row => ({
-            date: row.Day || row.Date || getTodayStr(),
-            grossSales: parseFloat(row['Gross sales']) || 0,
-            discounts: parseFloat(row.Discounts) || 0,
-            returns: parseFloat(row.Returns) || 0,
-            netSales: parseFloat(row['Net sales']) || 0,
-            shipping: parseFloat(row.Shipping) || 0,
-            taxes: parseFloat(row.Taxes) || 0,
-            totalSales: parseFloat(row['Total sales'] || row.Total) || 0
-          }));
-          setSalesRecords(prev => [...prev, ...mappedSales]);
-        } else if (type === 'meta_ads') {
-          const mappedAds: MetaAdReport[] = data.map(row => ({
-            date: row.Date || row['Reporting starts'] || getTodayStr(),
-            campaignName: row['Campaign name'] || 'Unknown',
-            spend: parseFloat(row['Amount spent (USD)'] || row.Spend || row['Amount spent'] || 0),
-            impressions: parseInt(row.Impressions) || 0,
-            clicks: parseInt(row['Link clicks'] || row.Clicks) || 0
-          }));
-          setAds(prev => [...prev, ...mappedAds]);
-        }
+    try {
+      setUploadProgress(prev => ({ ...prev, [type]: 0 }));
+      const data = await parseCSVFile(file, fraction => setUploadProgress(prev => ({ ...prev, [type]: fraction })));
 
-        setUploadStatus(prev => ({ ...prev, [type]: true }));
-        setTimeout(() => setUploadStatus(prev => ({ ...prev, [type]: false })), 3000);
-      } catch (err) {
-        console.error("Upload error:", err);
-        alert("There was an error parsing the file. Please ensure it is a valid Shopify/Meta export.");
+      if (data.length === 0) {
+        alert("CSV is empty or could not be parsed.");
+        return;
       }
-    };
-    reader.readAsText(file);
-    e.target.value = '';
+
+      if (isMappableType(type)) {
+        const headers = Object.keys(data[0]);
+        const profile = detectProfile(importProfiles, type, headers);
+        setPendingImport({ 
+          type, fileName: file.name, headers, rows: data, profile,
+          mapping: profile ? profile.mapping : suggestMapping(type, headers) 
+        });
+      } else {
+        importRows(type, data);
+      }
+    } catch (err) {
+      console.error("Upload error:", err);
+      alert("There was an error parsing the file. Please ensure it is a valid Shopify/Meta export.");
+    } finally {
+      setUploadProgress(prev => ({ ...prev, [type]: undefined }));
+    }
+  };
+
+  const confirmColumnMapping = (mapping: ColumnMapping, saveAsProfile?: string) => {
+    if (!pendingImport) return;
+    const { type, rows, fileName } = pendingImport;
+    setPendingImport(null);
+
+    if (saveAsProfile) {
+      const existing = importProfiles.find(p => p.type === type && p.name === saveAsProfile);
+      const profile: ImportProfile = { id: existing?.id || Date.now().toString(), name: saveAsProfile, type, mapping };
+      setImportProfiles([...importProfiles.filter(p => p.id !== profile.id), profile]);
+    }
+
+    try {
+      const mappedRows = applyMapping(type, rows, mapping);
+      const headerCurrency = mapping.spend ? detectHeaderCurrency([mapping.spend]) : undefined;
+      const report = validateRows(type, mappedRows);
+      if (report.issues.length > 0) {
+        setPendingValidation({ type, fileName, rows: mappedRows, report, headerCurrency });
+      } else {
+        importRows(type, mappedRows, headerCurrency);
+      }
+    } catch (err) {
+      console.error("Upload error:", err);
+      alert("There was an error importing the file. Please check the column mapping.");
+    }
   };
 
+  // A workspace saved with the mock provider falls back to Gemini in production builds
+  const provider = INSIGHT_PROVIDERS[SELECTABLE_PROVIDER_IDS.includes(insightProvider) ? insightProvider : 'gemini'];
+
   const runAiAnalysis = async () => {
     setIsAnalyzing(true);
-    const summary = `
-      Performance Period: ${startDate} to ${endDate}
-      Currency: ${currency}
-      Total Sales: ${formatVal(stats.totalSales)}
-      Net Profit: ${formatVal(stats.netProfit)}
-      Ad Spend: ${formatVal(stats.totalAdSpend)}
-      ROAS: ${stats.roas.toFixed(2)}
-      Net Margin: ${stats.netMargin.toFixed(1)}%
-      Orders: ${stats.totalOrders}
-    `;
-    const insight = await geminiService.analyzeData(summary);
-    setAiInsight(insight || '');
+    setAuditError('');
+    const trendGranularity = auditGranularity(startDate, endDate);
+    const input: AuditInput = {
+      startDate, endDate, currency, stats, feeLines,
+      campaigns: aggregateCampaigns(filteredAds),
+      products: aggregateProducts(billableOrders, unitCost, restockRefunds, hasCogs, startDate, endDate, trendGranularity),
+      trend: profitTrend(periodInput, trendGranularity),
+      granularity: trendGranularity
+    };
+    const result = await provider.analyze(input);
+    if (result) {
+      const { totalSales, netProfit, totalAdSpend, roas, netMargin } = stats;
+      const audit: AiAudit = {
+        id: `audit-${Date.now()}`, createdAt: new Date().toISOString(), startDate, endDate, currency,
+        ...result, provider: provider.id, kpis: { totalSales, netProfit, totalAdSpend, roas, netMargin }
+      };
+      setAiAudits(prev => [audit, ...prev].slice(0, MAX_SAVED_AUDITS));
+    } else {
+      setAuditError(`${provider.label} could not generate insights. Please check your data or try again later.`);
+    }
     setIsAnalyzing(false);
   };
 
+  // Audits are stored newest first; a fresh audit becomes the one on screen
+  useEffect(() => { setSelectedAuditId(aiAudits[0]?.id || ''); }, [aiAudits[0]?.id]);
+  const selectedAudit = aiAudits.find(a => a.id === selectedAuditId) || aiAudits[0];
+
+  const askQuestion = async (question: string) => {
+    if (!provider.chat) return;
+    const history = chatMessages;
+    setChatMessages([...history, { role: 'user', text: question }]);
+    setIsChatting(true);
+    const source: ChatDataSource = { periodInputFor, cogs, hasCogs, startDate, endDate, today };
+    const reply = await provider.chat(history, question, { currency, startDate, endDate, today, audit: selectedAudit }, (name, args) => runChatTool(name, args, source));
+    setChatMessages(prev => [...prev, reply || { role: 'model', text: 'Failed to get an answer. Please try again later.' }]);
+    setIsChatting(false);
+  };
+
   return (
     <div className="flex flex-col min-h-screen bg-slate-50">
       <header className="bg-white border-b border-slate-200 sticky top-0 z-30 shadow-sm">
@@ -246,7 +633,7 @@ export default function App() {
           </div>
           
           <div className="flex bg-slate-100 p-1 rounded-xl">
-            {(['dashboard', 'reports', 'manual', 'ai'] as const).map((tab) => (
+            {(['dashboard', 'products', 'campaigns', 'attribution', 'payouts', 'alerts', 'reports', 'manual', 'ai'] as const).map((tab) => (
               <button 
                 key={tab}
                 onClick={() => setActiveTab(tab)}
@@ -258,24 +645,47 @@ export default function App() {
           </div>
 
           <div className="flex items-center space-x-4">
+            <button onClick={() => setActiveTab('alerts')} className="relative p-2 rounded-xl text-slate-500 hover:bg-slate-100" title="Alert center">
+              <Bell className="w-5 h-5" />
+              {/* Alerts are only evaluated on the dashboard and in the alert center, so the count is only shown there */}
+              {showsAlerts && alerts.length > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-rose-500 text-white text-[10px] font-bold flex items-center justify-center">{alerts.length}</span>
+              )}
+            </button>
+            <WorkspaceSwitcher 
+              workspaces={workspaces}
+              activeId={activeWorkspaceId}
+              disabled={!isHydrated}
+              onSwitch={switchWorkspace}
+              onCreate={createWorkspace}
+              onDuplicate={duplicateWorkspace}
+              onRename={renameWorkspace}
+              onDelete={deleteWorkspace}
+            />
+
              {/* Currency Toggle */}
             <div className="flex bg-slate-100 p-1 rounded-xl border border-slate-200">
-              <button 
-                onClick={() => setCurrency('PKR')}
-                className={`px-3 py-1 rounded-lg text-[10px] font-bold transition-all ${currency === 'PKR' ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-500'}`}
-              >
-                PKR
-              </button>
-              <button 
-                onClick={() => setCurrency('USD')}
-                className={`px-3 py-1 rounded-lg text-[10px] font-bold transition-all ${currency === 'USD' ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-500'}`}
-              >
-                USD
-              </button>
+              {CURRENCIES.map(c => (
+                <button 
+                  key={c}
+                  onClick={() => setCurrency(c)}
+                  className={`px-3 py-1 rounded-lg text-[10px] font-bold transition-all ${currency === c ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-500'}`}
+                >
+                  {c}
+                </button>
+              ))}
             </div>
 
             <div className="flex items-center space-x-3 bg-white border border-slate-200 p-1.5 rounded-xl shadow-sm">
               <Calendar className="w-4 h-4 text-slate-400 ml-1" />
+              <select 
+                className="text-xs font-semibold text-slate-600 bg-transparent focus:outline-none" 
+                value={activePreset || ''} 
+                onChange={(e) => applyPreset(e.target.value as DatePreset)}
+              >
+                <option value="" disabled>Custom</option>
+                {(Object.keys(DATE_PRESET_LABELS) as DatePreset[]).map(p => <option key={p} value={p}>{DATE_PRESET_LABELS[p]}</option>)}
+              </select>
               <input 
                 type="date" 
                 className="text-xs font-medium text-slate-600 bg-transparent focus:outline-none" 
@@ -290,6 +700,18 @@ export default function App() {
                 onChange={(e) => setEndDate(e.target.value)}
               />
             </div>
+
+            <div className="flex bg-slate-100 p-1 rounded-xl border border-slate-200">
+              {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(g => (
+                <button 
+                  key={g}
+                  onClick={() => setGranularity(g)}
+                  className={`px-3 py-1 rounded-lg text-[10px] font-bold transition-all ${granularity === g ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-500'}`}
+                >
+                  {GRANULARITY_LABELS[g]}
+                </button>
+              ))}
+            </div>
           </div>
         </div>
       </header>
@@ -300,15 +722,31 @@ export default function App() {
             <div className="flex items-center justify-between">
               <div>
                 <h2 className="text-2xl font-bold text-slate-900">Performance Dashboard</h2>
-                <p className="text-sm text-slate-500">Consolidated analytics for {startDate} to {endDate}</p>
+                <p className="text-sm text-slate-500">
+                  Consolidated analytics for {startDate} to {endDate}
+                  {compareRange && <span className="text-slate-400"> · compared with {compareRange.start} to {compareRange.end}</span>}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2 text-xs">
+                <select className="px-3 py-2 border border-slate-200 rounded-xl bg-white font-semibold text-slate-600" value={compareMode} onChange={(e) => setCompareMode(e.target.value as CompareMode)}>
+                  {(Object.keys(COMPARE_MODE_LABELS) as CompareMode[]).map(m => <option key={m} value={m}>{COMPARE_MODE_LABELS[m]}</option>)}
+                </select>
+                {compareMode === 'custom' && (
+                  <>
+                    <input type="date" className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white text-slate-600" value={customCompare.start} onChange={(e) => setCustomCompare({ ...customCompare, start: e.target.value })} />
+                    <span className="text-slate-300">—</span>
+                    <input type="date" className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white text-slate-600" value={customCompare.end} onChange={(e) => setCustomCompare({ ...customCompare, end: e.target.value })} />
+                  </>
+                )}
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-              <KPICard title="Net Profit" value={formatVal(stats.netProfit)} sub={`${stats.netMargin.toFixed(1)}% Margin`} icon={<DollarSign className="w-5 h-5 text-emerald-600" />} color="emerald" />
-              <KPICard title="Gross Revenue" value={formatVal(stats.totalSales)} sub={`${stats.totalOrders} Orders`} icon={<ShoppingCart className="w-5 h-5 text-indigo-600" />} color="indigo" />
-              <KPICard title="Ad Investment" value={formatVal(stats.totalAdSpend)} sub={`ROAS: ${stats.roas.toFixed(2)}`} icon={<RefreshCw className="w-5 h-5 text-rose-600" />} color="rose" />
-              <KPICard title="Total COGS" value={formatVal(stats.totalCogs)} sub="Inventory & Shipping" icon={<Info className="w-5 h-5 text-slate-600" />} color="slate" />
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+              <KPICard title="Net Profit" value={formatVal(stats.netProfit)} sub={`${stats.netMargin.toFixed(1)}% Margin`} icon={<DollarSign className="w-5 h-5 text-emerald-600" />} color="emerald" delta={kpiDelta('netProfit', formatVal)} />
+              <KPICard title="Net Sales" value={formatVal(stats.totalSales)} sub={`${stats.totalOrders} Orders · AOV ${formatVal(stats.aov)}`} icon={<ShoppingCart className="w-5 h-5 text-indigo-600" />} color="indigo" delta={kpiDelta('totalSales', formatVal)} />
+              <KPICard title="Ad Investment" value={formatVal(stats.totalAdSpend)} sub={`ROAS: ${stats.roas.toFixed(2)}`} icon={<RefreshCw className="w-5 h-5 text-rose-600" />} color="rose" delta={kpiDelta('totalAdSpend', formatVal, false)} />
+              <KPICard title="Total COGS" value={formatVal(stats.totalCogs)} sub="Inventory at unit cost" icon={<Info className="w-5 h-5 text-slate-600" />} color="slate" delta={kpiDelta('totalCogs', formatVal, false)} />
+              <KPICard title="Return Rate" value={`${stats.returnRate.toFixed(1)}%`} sub={`${formatVal(stats.totalReturns)} · ${stats.refundedOrders} refunded`} icon={<RotateCcw className="w-5 h-5 text-rose-600" />} color="rose" delta={kpiDelta('returnRate', n => `${n.toFixed(1)} pts`, false)} />
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -316,17 +754,22 @@ export default function App() {
                 <h3 className="font-semibold text-slate-800 mb-6 flex items-center"><TrendingUp className="w-4 h-4 mr-2 text-indigo-500" /> Revenue Growth</h3>
                 <div className="h-80">
                   <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={chartData}>
+                    <ComposedChart data={chartData}>
                       <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                      <XAxis dataKey="date" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} />
-                      <YAxis stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(v) => currency === 'PKR' ? `${v/1000}k` : `$${v}`} />
+                      <XAxis dataKey="date" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(v) => bucketLabel(v, granularity)} />
+                      <YAxis stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(v) => new Intl.NumberFormat('en-US', { notation: 'compact' }).format(v)} />
                       <Tooltip 
                         formatter={(v: number) => formatVal(v)}
+                        labelFormatter={(v) => bucketLabel(v, granularity)}
                         cursor={{fill: '#f8fafc'}} 
                         contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.08)' }} 
                       />
-                      <Bar dataKey="sales" fill="#6366f1" radius={[6, 6, 0, 0]} />
-                    </BarChart>
+                      <Bar dataKey="sales" name="Sales" fill="#6366f1" radius={[6, 6, 0, 0]} />
+                      {comparePeriod && <Line dataKey="compareSales" name="Comparison" type="monotone" stroke="#94a3b8" strokeWidth={2} strokeDasharray="4 4" dot={false} connectNulls />}
+                      {alertMarkers.map(m => (
+                        <ReferenceLine key={m.date} x={m.date} stroke={ALERT_MARKER_COLORS[m.severity]} strokeDasharray="3 3" label={{ value: '!', position: 'top', fill: ALERT_MARKER_COLORS[m.severity], fontSize: 11, fontWeight: 700 }} />
+                      ))}
+                    </ComposedChart>
                   </ResponsiveContainer>
                 </div>
               </div>
@@ -358,52 +801,139 @@ export default function App() {
                   <div className="mt-4 space-y-3">
                     <LegendItem label="Ads" color="bg-rose-500" value={formatVal(stats.totalAdSpend)} />
                     <LegendItem label="COGS" color="bg-amber-500" value={formatVal(stats.totalCogs)} />
+                    <LegendItem label="Fees" color="bg-emerald-500" value={formatVal(stats.totalFees)} />
                     <LegendItem label="Net Profit" color="bg-indigo-500" value={formatVal(stats.netProfit)} />
                   </div>
                 </div>
               </div>
             </div>
 
+            <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+              <h3 className="font-semibold text-slate-800 mb-6 flex items-center"><TrendingUp className="w-4 h-4 mr-2 text-indigo-500" /> Profit Trend · {GRANULARITY_LABELS[granularity]}</h3>
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={trend}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="date" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(v) => bucketLabel(v, granularity)} />
+                    <YAxis yAxisId="amount" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(v) => new Intl.NumberFormat('en-US', { notation: 'compact' }).format(v)} />
+                    <YAxis yAxisId="margin" orientation="right" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} />
+                    <Tooltip 
+                      formatter={(v: number, name: string) => name === 'Margin' ? `${v.toFixed(1)}%` : formatVal(v)}
+                      labelFormatter={(v) => bucketLabel(v, granularity)}
+                      contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.08)' }} 
+                    />
+                    <Legend wrapperStyle={{ fontSize: 10 }} />
+                    {TREND_COSTS.map(cost => (
+                      <Area key={cost.key} yAxisId="amount" dataKey={cost.key} name={cost.label} stackId="costs" type="monotone" stroke={cost.color} fill={cost.color} fillOpacity={0.25} />
+                    ))}
+                    <Line yAxisId="amount" dataKey="netProfit" name="Net Profit" type="monotone" stroke="#6366f1" strokeWidth={2.5} dot={false} />
+                    <Line yAxisId="margin" dataKey="margin" name="Margin" type="monotone" stroke="#0f172a" strokeWidth={1.5} strokeDasharray="4 4" dot={false} />
+                    {alertMarkers.map(m => (
+                      <ReferenceLine key={m.date} yAxisId="amount" x={m.date} stroke={ALERT_MARKER_COLORS[m.severity]} strokeDasharray="3 3" label={{ value: '!', position: 'top', fill: ALERT_MARKER_COLORS[m.severity], fontSize: 11, fontWeight: 700 }} />
+                    ))}
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+              <h3 className="font-semibold text-slate-800">P&L Waterfall</h3>
+              <p className="text-xs text-slate-400 mt-1 mb-6">Net sales exclude shipping and taxes. Shipping charged to customers ({formatVal(stats.totalShipping)}) is passed through to couriers, so it is neither revenue nor a cost.</p>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={waterfall}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="name" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} />
+                    <YAxis stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(v) => new Intl.NumberFormat('en-US', { notation: 'compact' }).format(v)} />
+                    <Tooltip 
+                      formatter={(v: number) => formatVal(v)}
+                      cursor={{fill: '#f8fafc'}} 
+                      contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.08)' }} 
+                    />
+                    <Bar dataKey="base" stackId="waterfall" fill="transparent" tooltipType="none" isAnimationActive={false} />
+                    <Bar dataKey="value" stackId="waterfall" radius={[4, 4, 0, 0]}>
+                      {waterfall.map(step => (
+                        <Cell key={step.name} fill={step.kind === 'deduction' ? '#f43f5e' : step.name === 'Net Profit' && stats.netProfit < 0 ? '#be123c' : '#6366f1'} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
             <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
               <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
-                <h3 className="font-semibold text-slate-800">Order Logs</h3>
-                <span className="text-xs font-medium text-slate-400">{filteredOrders.length} orders analyzed</span>
+                <h3 className="font-semibold text-slate-800">Fee Breakdown</h3>
+                <span className="text-xs font-medium text-slate-400">{formatVal(stats.totalFees)} total</span>
               </div>
-              <div className="overflow-x-auto">
-                <table className="w-full text-left text-sm">
-                  <thead className="bg-slate-50 text-slate-500 font-medium uppercase text-[10px] tracking-wider">
-                    <tr>
-                      <th className="px-6 py-3">Order</th>
-                      <th className="px-6 py-3">Date</th>
-                      <th className="px-6 py-3">Gross</th>
-                      <th className="px-6 py-3">Status</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-slate-100">
-                    {filteredOrders.slice(0, 15).map(order => (
-                      <tr key={`${order.id}-${order.name}`} className="hover:bg-slate-50 transition-colors">
-                        <td className="px-6 py-4 font-bold text-slate-900">{order.name}</td>
-                        <td className="px-6 py-4 text-slate-500">{order.date}</td>
-                        <td className="px-6 py-4 font-semibold text-slate-900">{formatVal(order.total)}</td>
-                        <td className="px-6 py-4">
-                          <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${
-                            order.status.toLowerCase().includes('paid') || order.status.toLowerCase().includes('fulfilled') 
-                            ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'
-                          }`}>
-                            {order.status}
-                          </span>
-                        </td>
-                      </tr>
-                    ))}
-                    {filteredOrders.length === 0 && (
-                      <tr>
-                        <td colSpan={4} className="px-6 py-12 text-center text-slate-400 italic">No order data present. Please upload reports.</td>
-                      </tr>
-                    )}
-                  </tbody>
-                </table>
+              <div className="divide-y divide-slate-100">
+                {feeLines.map(line => (
+                  <div key={line.ruleId} className="px-6 py-3 flex items-center justify-between text-sm">
+                    <span className="font-semibold text-slate-700">{line.label}</span>
+                    <div className="flex items-center space-x-6">
+                      <span className="text-xs text-slate-400">{line.orderCount > 0 ? `${line.orderCount} orders` : 'Flat'}</span>
+                      <span className="font-bold text-slate-900 w-28 text-right">{formatVal(line.amount)}</span>
+                    </div>
+                  </div>
+                ))}
               </div>
             </div>
+
+            <OrderExplorer
+              orders={filteredOrders}
+              feeRules={feeRules}
+              unitCost={unitCost}
+              convertUsd={convertUsd}
+              restockRefunds={restockRefunds}
+              reconciliation={reconciliation}
+              startDate={startDate}
+              endDate={endDate}
+              formatVal={formatVal}
+            />
+          </div>
+        )}
+
+        {activeTab === 'products' && (
+          <ProductsView
+            orders={billableOrders}
+            unitCost={unitCost}
+            restockRefunds={restockRefunds}
+            hasCogs={hasCogs}
+            startDate={startDate}
+            endDate={endDate}
+            granularity={granularity}
+            formatVal={formatVal}
+          />
+        )}
+
+        {activeTab === 'campaigns' && (
+          <CampaignsView ads={filteredAds} startDate={startDate} endDate={endDate} granularity={granularity} formatVal={formatVal} />
+        )}
+
+        {activeTab === 'attribution' && (
+          <AttributionView
+            orders={billableOrders}
+            ads={filteredAds}
+            rules={attributionRules}
+            unitCost={unitCost}
+            restockRefunds={restockRefunds}
+            formatVal={formatVal}
+            onRulesChange={setAttributionRules}
+          />
+        )}
+
+        {activeTab === 'payouts' && (
+          <ReconciliationView summary={reconciliation} formatVal={formatVal} />
+        )}
+
+        {activeTab === 'alerts' && (
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 animate-in fade-in duration-500">
+            <div className="lg:col-span-3">
+              <AlertCenter alerts={alerts} startDate={startDate} endDate={endDate} />
+            </div>
+            <div className="lg:col-span-2">
+              <AlertRulesEditor rules={alertRules} onChange={setAlertRules} />
+            </div>
           </div>
         )}
 
@@ -414,14 +944,43 @@ export default function App() {
                 <Upload className="text-indigo-600 w-10 h-10" />
               </div>
               <h2 className="text-2xl font-bold text-slate-900 mb-2">Data Synchronizer</h2>
-              <p className="text-slate-500 mb-10 max-w-sm mx-auto">Import your Shopify and Meta export files to update the brand intelligence engine.</p>
+              <p className="text-slate-500 mb-6 max-w-sm mx-auto">Import your Shopify and Meta export files to update the brand intelligence engine.</p>
+
+              <div className="flex flex-wrap items-center justify-center gap-4 mb-10">
+                <div className="inline-flex bg-slate-100 p-1 rounded-xl border border-slate-200">
+                  {(Object.keys(IMPORT_MODE_LABELS) as ImportMode[]).map(mode => (
+                    <button 
+                      key={mode}
+                      onClick={() => setImportMode(mode)}
+                      className={`px-3 py-1 rounded-lg text-[10px] font-bold transition-all ${importMode === mode ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-500'}`}
+                    >
+                      {IMPORT_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+                <CurrencySelect label="Store currency" value={storeCurrency} onChange={setStoreCurrency} />
+                <CurrencySelect label="Ad account currency" value={adCurrency} onChange={setAdCurrency} />
+                <TimezoneSelect value={timezone} onChange={setTimezone} />
+                <label className="flex items-center space-x-2 text-[10px] font-bold text-slate-500 uppercase">
+                  <span>Insights</span>
+                  <select className="px-2 py-1 border border-slate-200 rounded-lg bg-white text-xs text-slate-700" value={provider.id} onChange={(e) => setInsightProvider(e.target.value as InsightProviderId)}>
+                    {SELECTABLE_PROVIDER_IDS.map(id => <option key={id} value={id}>{INSIGHT_PROVIDERS[id].label}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center space-x-2 text-[10px] font-bold text-slate-500 uppercase" title="Turn off when refunded goods are often lost or damaged, e.g. COD returns to origin">
+                  <input type="checkbox" checked={restockRefunds} onChange={(e) => setRestockRefunds(e.target.checked)} />
+                  <span>Refunded goods return to stock</span>
+                </label>
+              </div>
               
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                 <ReportUploader 
                   title="Shopify Sales Report" 
                   description="Required for financial accuracy"
                   type="shopify_sales" 
                   success={uploadStatus['shopify_sales']} 
+                  summary={importSummaries['shopify_sales']} 
+                  progress={uploadProgress['shopify_sales']} 
                   onUpload={(e) => handleFileUpload(e, 'shopify_sales')} 
                 />
                 <ReportUploader 
@@ -429,6 +988,8 @@ export default function App() {
                   description="Required for SKU & COGS mapping"
                   type="shopify_orders" 
                   success={uploadStatus['shopify_orders']} 
+                  summary={importSummaries['shopify_orders']} 
+                  progress={uploadProgress['shopify_orders']} 
                   onUpload={(e) => handleFileUpload(e, 'shopify_orders')} 
                 />
                 <ReportUploader 
@@ -436,10 +997,28 @@ export default function App() {
                   description="Required for ROAS calculation"
                   type="meta_ads" 
                   success={uploadStatus['meta_ads']} 
+                  summary={importSummaries['meta_ads']} 
+                  progress={uploadProgress['meta_ads']} 
                   onUpload={(e) => handleFileUpload(e, 'meta_ads')} 
                 />
+                <ReportUploader 
+                  title="Courier / Gateway Settlements" 
+                  description="Required for payout reconciliation"
+                  type="settlement" 
+                  success={uploadStatus['settlement']} 
+                  summary={importSummaries['settlement']} 
+                  progress={uploadProgress['settlement']} 
+                  onUpload={(e) => handleFileUpload(e, 'settlement')} 
+                />
               </div>
             </div>
+
+            <BackupPanel 
+              onExport={exportBackup}
+              onImport={importBackup}
+              lastImport={lastBackupImport}
+              importError={backupError}
+            />
           </div>
         )}
 
@@ -448,104 +1027,128 @@ export default function App() {
               <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
                 <div className="flex items-center justify-between mb-6">
                   <h3 className="font-bold text-slate-800 flex items-center"><DollarSign className="w-5 h-5 mr-2 text-indigo-600" /> Operational Overheads</h3>
-                  <button onClick={() => setExpenses([...expenses, { id: Date.now().toString(), category: '', amount: 0, note: '' }])} className="p-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100">
+                  <button onClick={() => setExpenses([...expenses, { id: Date.now().toString(), category: '', amount: 0, note: '', recurrence: 'monthly', startDate: startDate }])} className="p-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100">
                     <Plus className="w-5 h-5" />
                   </button>
                 </div>
                 <div className="space-y-3">
-                  {expenses.map((exp, idx) => (
-                    <div key={exp.id} className="flex items-center space-x-3 group">
-                      <input type="text" placeholder="e.g. Office Rent" className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm" value={exp.category} onChange={(e) => {
-                        const n = [...expenses]; n[idx].category = e.target.value; setExpenses(n);
-                      }} />
-                      <div className="relative">
-                        <span className="absolute left-3 top-2 text-slate-400 text-sm">$</span>
-                        <input type="number" className="w-32 pl-7 pr-3 py-2 border border-slate-200 rounded-lg text-sm" placeholder="USD" value={exp.amount || ''} onChange={(e) => {
-                          const n = [...expenses]; n[idx].amount = parseFloat(e.target.value) || 0; setExpenses(n);
-                        }} />
+                  {expenses.map(exp => (
+                    <div key={exp.id} className="bg-slate-50 p-3 rounded-xl border border-slate-100 space-y-2 group">
+                      <div className="flex items-center space-x-3">
+                        <input type="text" placeholder="e.g. Office Rent" className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm" value={exp.category} onChange={(e) => updateExpense(exp.id, { category: e.target.value })} />
+                        <div className="relative">
+                          <span className="absolute left-3 top-2 text-slate-400 text-sm">$</span>
+                          <input type="number" className="w-32 pl-7 pr-3 py-2 border border-slate-200 rounded-lg text-sm" placeholder="USD" value={exp.amount || ''} onChange={(e) => updateExpense(exp.id, { amount: parseFloat(e.target.value) || 0 })} />
+                        </div>
+                        <button onClick={() => setExpenses(expenses.filter(e => e.id !== exp.id))} className="text-slate-300 hover:text-rose-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
+                      </div>
+                      <div className="flex items-center space-x-2 text-xs">
+                        <select className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white font-semibold text-slate-600" value={exp.recurrence} onChange={(e) => updateExpense(exp.id, { recurrence: e.target.value as ExpenseRecurrence })}>
+                          {(Object.keys(RECURRENCE_LABELS) as ExpenseRecurrence[]).map(r => <option key={r} value={r}>{RECURRENCE_LABELS[r]}</option>)}
+                        </select>
+                        <input type="date" className="px-2 py-1 border border-slate-200 rounded-lg bg-white text-slate-600" value={exp.startDate} onChange={(e) => updateExpense(exp.id, { startDate: e.target.value })} />
+                        <span className="text-slate-300">—</span>
+                        <input type="date" className="px-2 py-1 border border-slate-200 rounded-lg bg-white text-slate-600" value={exp.endDate || ''} onChange={(e) => updateExpense(exp.id, { endDate: e.target.value || undefined })} />
+                        <span className="ml-auto text-[10px] font-bold text-slate-400">{formatVal(expenseAmountInRange(exp, startDate, endDate, convertUsd))} in range</span>
                       </div>
-                      <button onClick={() => setExpenses(expenses.filter(e => e.id !== exp.id))} className="text-slate-300 hover:text-rose-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
                     </div>
                   ))}
                   {expenses.length === 0 && <p className="text-center py-10 text-slate-400 text-sm italic">No overheads added for this period.</p>}
                 </div>
+                {overheadBreakdown.length > 0 && (
+                  <div className="mt-6 pt-6 border-t border-slate-100 space-y-3">
+                    <p className="text-[10px] text-slate-400 font-bold uppercase">By Category · {startDate} to {endDate}</p>
+                    {overheadBreakdown.map(row => (
+                      <LegendItem key={row.category} label={row.category} color="bg-indigo-500" value={formatVal(row.amount)} />
+                    ))}
+                    <LegendItem label="Total Overheads" color="bg-slate-900" value={formatVal(stats.totalOverheads)} />
+                  </div>
+                )}
               </div>
 
-              <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
-                <div className="flex items-center justify-between mb-6">
-                  <h3 className="font-bold text-slate-800 flex items-center"><Info className="w-5 h-5 mr-2 text-indigo-600" /> Product COGS Ledger</h3>
-                  <p className="text-[10px] text-slate-400 font-bold uppercase">Automated SKU Detection</p>
-                </div>
-                <div className="space-y-4 max-h-[500px] overflow-y-auto pr-2">
-                  {cogs.map((item, idx) => (
-                    <div key={item.sku} className="bg-slate-50 p-4 rounded-xl border border-slate-100 flex items-center justify-between">
-                      <div className="max-w-[60%]">
-                        <p className="text-[10px] font-black text-indigo-600 truncate">{item.sku}</p>
-                        <p className="text-sm font-semibold text-slate-700 truncate">{item.productName}</p>
-                      </div>
-                      <div className="flex items-center space-x-3">
-                        <span className="text-[10px] text-slate-400 font-bold">Unit Cost (USD)</span>
-                        <input 
-                          type="number" 
-                          className="w-24 px-3 py-1.5 bg-white border border-slate-200 rounded-lg font-bold text-sm text-right text-slate-900" 
-                          value={item.cogs || ''} 
-                          placeholder="0.00"
-                          onChange={(e) => {
-                            const n = [...cogs]; n[idx].cogs = parseFloat(e.target.value) || 0; setCogs(n);
-                          }} 
-                        />
-                      </div>
-                    </div>
-                  ))}
-                  {cogs.length === 0 && (
-                    <div className="text-center py-20 bg-slate-50 rounded-2xl border border-dashed border-slate-200">
-                      <AlertCircle className="w-8 h-8 text-slate-300 mx-auto mb-3" />
-                      <p className="text-slate-400 text-sm font-medium">Upload "Orders Report" to auto-detect SKUs.</p>
-                    </div>
-                  )}
-                </div>
-              </div>
+              <CogsLedger 
+                cogs={cogs} 
+                today={today}
+                onChange={setCogs} 
+                onUpload={(e) => handleFileUpload(e, 'cogs')} 
+                onExport={exportCogs} 
+              />
+
+              <FeeRulesEditor rules={feeRules} defaultDate={startDate} onChange={setFeeRules} />
+
+              <ExchangeRatesPanel 
+                rates={exchangeRates}
+                defaultDate={endDate}
+                onChange={setExchangeRates}
+                onUpload={(e) => handleFileUpload(e, 'exchange_rates')}
+              />
            </div>
         )}
 
         {activeTab === 'ai' && (
-          <div className="max-w-4xl mx-auto animate-in slide-in-from-bottom-4 duration-500">
-            <div className="bg-indigo-600 p-10 rounded-[2.5rem] text-white shadow-2xl relative overflow-hidden mb-8">
-              <div className="absolute top-0 right-0 p-12 opacity-10">
-                <Sparkles className="w-48 h-48" />
-              </div>
-              <div className="relative z-10">
-                <h2 className="text-3xl font-bold mb-2">AI Performance Audit</h2>
-                <p className="text-indigo-100 text-lg opacity-90 mb-8 max-w-lg">Let Gemini analyze your current period performance and find optimization opportunities.</p>
-                <button 
-                  onClick={runAiAnalysis}
-                  disabled={isAnalyzing}
-                  className="px-8 py-4 bg-white text-indigo-700 font-bold rounded-2xl shadow-xl hover:scale-105 transition-all disabled:opacity-50 flex items-center"
-                >
-                  {isAnalyzing ? <div className="w-5 h-5 border-2 border-indigo-700 border-t-transparent rounded-full animate-spin mr-3"></div> : <Sparkles className="w-5 h-5 mr-2" />}
-                  {isAnalyzing ? 'Processing Intelligence...' : 'Generate Actionable Insights'}
-                </button>
-              </div>
-            </div>
-
-            {aiInsight && (
-              <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm animate-in fade-in zoom-in duration-500">
-                <div className="prose prose-indigo max-w-none">
-                  {aiInsight.split('\n').map((line, i) => (
-                    <p key={i} className="text-slate-700 mb-4 leading-relaxed font-medium">{line}</p>
-                  ))}
-                </div>
-              </div>
+          <AiAuditView
+            audits={aiAudits}
+            selected={selectedAudit}
+            providerLabel={provider.label}
+            isAnalyzing={isAnalyzing}
+            error={auditError}
+            onRun={runAiAnalysis}
+            onSelect={setSelectedAuditId}
+            onDelete={(id) => setAiAudits(prev => prev.filter(a => a.id !== id))}
+          >
+            {provider.chat ? (
+              <AuditChat messages={chatMessages} isAnswering={isChatting} onAsk={askQuestion} onClear={() => setChatMessages([])} />
+            ) : (
+              <p className="text-center text-xs text-slate-400">Follow-up questions need a language model. Switch the insight provider in the Reports settings to ask them.</p>
             )}
-          </div>
+          </AiAuditView>
         )}
       </main>
+
+      {pendingValidation && (
+        <ValidationReportModal 
+          fileName={pendingValidation.fileName}
+          rows={pendingValidation.rows}
+          report={pendingValidation.report}
+          onCancel={() => setPendingValidation(null)}
+          onImportValid={() => {
+            const { type, report, headerCurrency } = pendingValidation;
+            setPendingValidation(null);
+            importRows(type, report.validRows, headerCurrency);
+          }}
+        />
+      )}
+
+      {pendingCogsDiff && (
+        <CogsImportPreview 
+          diff={pendingCogsDiff}
+          onCancel={() => setPendingCogsDiff(null)}
+          onConfirm={confirmCogsImport}
+        />
+      )}
+
+      {pendingImport && (
+        <ColumnMappingWizard 
+          type={pendingImport.type}
+          fileName={pendingImport.fileName}
+          headers={pendingImport.headers}
+          rows={pendingImport.rows}
+          initialMapping={pendingImport.mapping}
+          detectedProfile={pendingImport.profile}
+          profiles={importProfiles}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={confirmColumnMapping}
+          onDeleteProfile={(id) => setImportProfiles(importProfiles.filter(p => p.id !== id))}
+        />
+      )}
     </div>
   );
 }
 
-function KPICard({ title, value, sub, icon, color }: { 
-  title: string; value: string; sub: string; icon: React.ReactNode; color: string; 
+type KPIDelta = Delta & { label: string; good: boolean };
+
+function KPICard({ title, value, sub, icon, color, delta }: { 
+  title: string; value: string; sub: string; icon: React.ReactNode; color: string; delta?: KPIDelta;
 }) {
   const colorMap: any = {
     emerald: 'bg-emerald-50 text-emerald-600 border-emerald-100',
@@ -560,10 +1163,17 @@ function KPICard({ title, value, sub, icon, color }: {
         <div className={`p-2.5 rounded-xl border ${colorMap[color]}`}>
           {icon}
         </div>
+        {delta && (
+          <span className={`flex items-center px-2 py-1 rounded-lg text-[10px] font-bold ${delta.good ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>
+            {delta.abs >= 0 ? <ArrowUpRight className="w-3 h-3 mr-0.5" /> : <ArrowDownRight className="w-3 h-3 mr-0.5" />}
+            {delta.pct === null ? 'n/a' : `${Math.abs(delta.pct).toFixed(1)}%`}
+          </span>
+        )}
       </div>
       <h3 className="text-slate-400 text-[10px] font-bold uppercase tracking-wider mb-1">{title}</h3>
       <div className="text-2xl font-black text-slate-900 group-hover:text-indigo-600 transition-colors">{value}</div>
       <p className="text-xs text-slate-500 mt-1 font-medium">{sub}</p>
+      {delta && <p className="text-[10px] text-slate-400 mt-1 font-semibold">{delta.label} vs comparison</p>}
     </div>
   );
 }
@@ -580,7 +1190,7 @@ function LegendItem({ label, color, value }: { label: string; color: string; val
   );
 }
 
-function ReportUploader({ title, description, type, onUpload, success }: { title: string; description: string; type: string; onUpload: (e: any) => void, success?: boolean }) {
+function ReportUploader({ title, description, type, onUpload, success, summary, progress }: { title: string; description: string; type: string; onUpload: (e: any) => void, success?: boolean, summary?: ImportSummary, progress?: number }) {
   return (
     <div className={`group border-2 border-dashed p-8 rounded-3xl transition-all text-center flex flex-col h-full ${success ? 'border-emerald-400 bg-emerald-50' : 'border-slate-200 hover:border-indigo-400 hover:bg-indigo-50'}`}>
       <h4 className="text-base font-bold text-slate-800 mb-1">{title}</h4>
@@ -589,6 +1199,46 @@ function ReportUploader({ title, description, type, onUpload, success }: { title
       <label htmlFor={`upload-${type}`} className={`inline-flex items-center justify-center px-6 py-3 text-xs font-bold rounded-2xl cursor-pointer transition-all shadow-sm active:scale-95 ${success ? 'bg-emerald-600 text-white' : 'bg-slate-900 text-white hover:bg-slate-800'}`}>
         {success ? <><CheckCircle2 className="w-4 h-4 mr-2" /> Synced</> : <><Upload className="w-4 h-4 mr-2" /> Select CSV</>}
       </label>
+      {progress !== undefined && (
+        <div className="mt-4">
+          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+          </div>
+          <p className="text-[10px] text-slate-400 font-bold mt-1">Parsing… {Math.round(progress * 100)}%</p>
+        </div>
+      )}
+      {summary && (
+        <p className="text-[10px] text-slate-500 font-bold mt-4">
+          {summary.added} added · {summary.updated} updated · {summary.skipped} skipped
+          {summary.removed > 0 && ` · ${summary.removed} removed`}
+        </p>
+      )}
     </div>
   );
 }
+
+function TimezoneSelect({ value, onChange }: { value: string; onChange: (tz: string) => void }) {
+  const zones = useMemo(() => {
+    const supported = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+    return supported.includes(value) ? supported : [value, ...supported];
+  }, [value]);
+  return (
+    <label className="flex items-center space-x-2 text-[10px] font-bold text-slate-500 uppercase" title="Imported timestamps are turned into calendar days with this timezone. Records already imported keep their days; re-import them to apply a change.">
+      <span>Timezone <span className="normal-case font-medium text-slate-400">(new imports)</span></span>
+      <select className="px-2 py-1 border border-slate-200 rounded-lg bg-white text-xs text-slate-700" value={value} onChange={(e) => onChange(e.target.value)}>
+        {zones.map(z => <option key={z} value={z}>{z}</option>)}
+      </select>
+    </label>
+  );
+}
+
+function CurrencySelect({ label, value, onChange }: { label: string; value: Currency; onChange: (c: Currency) => void }) {
+  return (
+    <label className="flex items-center space-x-2 text-[10px] font-bold text-slate-500 uppercase">
+      <span>{label}</span>
+      <select className="px-2 py-1 border border-slate-200 rounded-lg bg-white text-xs text-slate-700" value={value} onChange={(e) => onChange(e.target.value as Currency)}>
+        {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+      </select>
+    </label>
+  );
+}
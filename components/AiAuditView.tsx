@@ -0,0 +1,172 @@
+
+import React, { useState } from 'react';
+import { Sparkles, AlertOctagon, AlertTriangle, Info, CheckCircle2, History, Trash2, ArrowRight } from 'lucide-react';
+import { AiAudit, InsightSeverity } from '../types';
+import { SEVERITY_LABELS, newInsightMetrics } from '../utils/audit';
+import { computeDelta } from '../utils/comparison';
+import { formatCurrency } from '../utils/currency';
+import { INSIGHT_PROVIDERS } from '../services/insightProvider';
+import Markdown from './Markdown';
+
+const SEVERITY_STYLES: Record<InsightSeverity, { card: string; badge: string; icon: React.ElementType }> = {
+  critical: { card: 'border-rose-200 bg-rose-50/40', badge: 'bg-rose-100 text-rose-700', icon: AlertOctagon },
+  warning: { card: 'border-amber-200 bg-amber-50/40', badge: 'bg-amber-100 text-amber-700', icon: AlertTriangle },
+  info: { card: 'border-slate-200 bg-white', badge: 'bg-slate-100 text-slate-600', icon: Info },
+  positive: { card: 'border-emerald-200 bg-emerald-50/40', badge: 'bg-emerald-100 text-emerald-700', icon: CheckCircle2 },
+};
+
+const KPI_ROWS: { key: keyof AiAudit['kpis']; label: string; kind: 'money' | 'ratio' | 'percent' }[] = [
+  { key: 'totalSales', label: 'Net Sales', kind: 'money' },
+  { key: 'netProfit', label: 'Net Profit', kind: 'money' },
+  { key: 'totalAdSpend', label: 'Ad Spend', kind: 'money' },
+  { key: 'roas', label: 'ROAS', kind: 'ratio' },
+  { key: 'netMargin', label: 'Net Margin', kind: 'percent' },
+];
+
+const formatKpi = (audit: AiAudit, key: keyof AiAudit['kpis'], kind: 'money' | 'ratio' | 'percent') => {
+  const value = audit.kpis[key];
+  if (kind === 'ratio') return `${value.toFixed(2)}x`;
+  if (kind === 'percent') return `${value.toFixed(1)}%`;
+  // Audits keep the currency they were run in, which may differ from the current display currency
+  return formatCurrency(value, audit.currency);
+};
+
+const auditLabel = (audit: AiAudit) =>
+  `${audit.startDate} → ${audit.endDate} · ${new Date(audit.createdAt).toLocaleString()} · ${INSIGHT_PROVIDERS[audit.provider || 'gemini'].label}`;
+
+function AuditComparison({ current, previous }: { current: AiAudit; previous: AiAudit }) {
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+      <table className="w-full text-left text-sm">
+        <thead className="bg-slate-50 text-slate-500 font-medium uppercase text-[10px] tracking-wider">
+          <tr>
+            <th className="px-6 py-3">KPI</th>
+            <th className="px-6 py-3 text-right">{previous.startDate} → {previous.endDate}</th>
+            <th className="px-6 py-3 text-right">{current.startDate} → {current.endDate}</th>
+            <th className="px-6 py-3 text-right">Change</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {KPI_ROWS.map(row => {
+            const delta = computeDelta(current.kpis[row.key], previous.kpis[row.key]);
+            const good = row.key === 'totalAdSpend' ? delta.abs <= 0 : delta.abs >= 0;
+            return (
+              <tr key={row.key}>
+                <td className="px-6 py-3 font-medium text-slate-700">{row.label}</td>
+                <td className="px-6 py-3 text-right text-slate-500">{formatKpi(previous, row.key, row.kind)}</td>
+                <td className="px-6 py-3 text-right text-slate-900 font-semibold">{formatKpi(current, row.key, row.kind)}</td>
+                <td className={`px-6 py-3 text-right text-xs font-bold ${delta.abs === 0 ? 'text-slate-400' : good ? 'text-emerald-600' : 'text-rose-600'}`}>
+                  {delta.pct === null ? '—' : `${delta.pct > 0 ? '+' : ''}${delta.pct.toFixed(1)}%`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {previous.currency !== current.currency && (
+        <p className="px-6 py-3 text-xs text-amber-600 border-t border-slate-100">These audits were run in different currencies, so money changes are not comparable.</p>
+      )}
+    </div>
+  );
+}
+
+export default function AiAuditView({ audits, selected, providerLabel, isAnalyzing, error, onRun, onSelect, onDelete, children }: {
+  audits: AiAudit[];
+  // Owned by the parent so the follow-up chat can be told which audit is on screen
+  selected?: AiAudit;
+  providerLabel: string;
+  isAnalyzing: boolean;
+  error: string;
+  onRun: () => void;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  // Follow-up panel shown under the audit
+  children?: React.ReactNode;
+}) {
+  const [compareId, setCompareId] = useState('');
+
+  const previous = audits.find(a => a.id === compareId && a.id !== selected?.id);
+  const newMetrics = selected && previous ? newInsightMetrics(selected, previous) : new Set<string>();
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 animate-in slide-in-from-bottom-4 duration-500">
+      <div className="bg-indigo-600 p-10 rounded-[2.5rem] text-white shadow-2xl relative overflow-hidden">
+        <div className="absolute top-0 right-0 p-12 opacity-10">
+          <Sparkles className="w-48 h-48" />
+        </div>
+        <div className="relative z-10">
+          <h2 className="text-3xl font-bold mb-2">AI Performance Audit</h2>
+          <p className="text-indigo-100 text-lg opacity-90 mb-8 max-w-lg">Let {providerLabel} analyze your campaigns, products, costs and profit trend for the current period and find optimization opportunities.</p>
+          <button
+            onClick={onRun}
+            disabled={isAnalyzing}
+            className="px-8 py-4 bg-white text-indigo-700 font-bold rounded-2xl shadow-xl hover:scale-105 transition-all disabled:opacity-50 flex items-center"
+          >
+            {isAnalyzing ? <div className="w-5 h-5 border-2 border-indigo-700 border-t-transparent rounded-full animate-spin mr-3"></div> : <Sparkles className="w-5 h-5 mr-2" />}
+            {isAnalyzing ? 'Processing Intelligence...' : 'Generate Actionable Insights'}
+          </button>
+          {error && <p className="mt-4 text-sm font-medium text-rose-100">{error}</p>}
+        </div>
+      </div>
+
+      {selected && (
+        <>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div className="flex items-center space-x-2 text-sm text-slate-500">
+              <History className="w-4 h-4" />
+              <select value={selected.id} onChange={(e) => onSelect(e.target.value)} className="bg-white border border-slate-200 px-3 py-1.5 rounded-xl text-xs font-semibold text-slate-700 focus:outline-none">
+                {audits.map(a => <option key={a.id} value={a.id}>{auditLabel(a)}</option>)}
+              </select>
+              <button onClick={() => onDelete(selected.id)} className="p-1.5 text-slate-400 hover:text-rose-600" title="Delete this audit"><Trash2 className="w-4 h-4" /></button>
+            </div>
+            {audits.length > 1 && (
+              <div className="flex items-center space-x-2 text-xs text-slate-500">
+                <span>Compare with</span>
+                <select value={compareId} onChange={(e) => setCompareId(e.target.value)} className="bg-white border border-slate-200 px-3 py-1.5 rounded-xl text-xs font-semibold text-slate-700 focus:outline-none">
+                  <option value="">Nothing</option>
+                  {audits.filter(a => a.id !== selected.id).map(a => <option key={a.id} value={a.id}>{auditLabel(a)}</option>)}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {previous && <AuditComparison current={selected} previous={previous} />}
+
+          {selected.summary && (
+            <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm animate-in fade-in zoom-in duration-500">
+              <Markdown source={selected.summary} />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {selected.insights.map((insight, i) => {
+              const style = SEVERITY_STYLES[insight.severity];
+              const Icon = style.icon;
+              return (
+                <div key={i} className={`p-6 rounded-3xl border shadow-sm space-y-4 ${style.card}`}>
+                  <div className="flex items-start justify-between gap-3">
+                    <h3 className="font-bold text-slate-900 flex items-start"><Icon className="w-5 h-5 mr-2 mt-0.5 shrink-0" /> {insight.title}</h3>
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase whitespace-nowrap ${style.badge}`}>{SEVERITY_LABELS[insight.severity]}</span>
+                  </div>
+                  {insight.metric && (
+                    <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                      {insight.metric}
+                      {newMetrics.has(insight.metric.trim().toLowerCase()) && <span className="ml-2 px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700">New</span>}
+                    </p>
+                  )}
+                  <Markdown source={insight.detail} className="text-sm" />
+                  <div className="flex items-start text-sm font-semibold text-indigo-700 bg-white/70 rounded-xl p-3">
+                    <ArrowRight className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+                    <span>{insight.action}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      {children}
+    </div>
+  );
+}
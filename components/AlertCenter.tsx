@@ -0,0 +1,61 @@
+
+import React, { useState } from 'react';
+import { Bell, AlertTriangle, Info, CheckCircle2, AlertOctagon, Activity, SlidersHorizontal } from 'lucide-react';
+import { InsightSeverity } from '../types';
+import { Alert } from '../utils/alerts';
+
+const SEVERITY_ICONS: Record<InsightSeverity, { icon: React.ElementType; color: string }> = {
+  critical: { icon: AlertOctagon, color: 'text-rose-600 bg-rose-50' },
+  warning: { icon: AlertTriangle, color: 'text-amber-600 bg-amber-50' },
+  info: { icon: Info, color: 'text-slate-500 bg-slate-100' },
+  positive: { icon: CheckCircle2, color: 'text-emerald-600 bg-emerald-50' },
+};
+
+export default function AlertCenter({ alerts, startDate, endDate }: { alerts: Alert[]; startDate: string; endDate: string }) {
+  const [source, setSource] = useState<Alert['source'] | 'all'>('all');
+  const visible = source === 'all' ? alerts : alerts.filter(a => a.source === source);
+  const count = (s: Alert['source']) => alerts.filter(a => a.source === s).length;
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-slate-800 flex items-center"><Bell className="w-4 h-4 mr-2 text-indigo-500" /> Alert Center</h3>
+          <p className="text-xs text-slate-400 mt-0.5">{startDate} to {endDate}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          {([['all', `All (${alerts.length})`], ['rule', `Rules (${count('rule')})`], ['anomaly', `Anomalies (${count('anomaly')})`]] as const).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setSource(key)}
+              className={`px-3 py-1.5 text-xs font-semibold rounded-lg transition-all ${source === key ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="divide-y divide-slate-100">
+        {visible.map(alert => {
+          const { icon: Icon, color } = SEVERITY_ICONS[alert.severity];
+          return (
+            <div key={alert.id} className="px-6 py-4 flex items-start space-x-4">
+              <div className={`p-2 rounded-xl ${color}`}><Icon className="w-4 h-4" /></div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-3">
+                  <p className="font-semibold text-slate-800 text-sm">{alert.title}</p>
+                  <span className="flex items-center text-[10px] font-bold uppercase text-slate-400 whitespace-nowrap">
+                    {alert.source === 'anomaly' ? <Activity className="w-3 h-3 mr-1" /> : <SlidersHorizontal className="w-3 h-3 mr-1" />}
+                    {alert.startDate === alert.endDate ? alert.endDate : `${alert.startDate} → ${alert.endDate}`}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">{alert.message}</p>
+              </div>
+            </div>
+          );
+        })}
+        {visible.length === 0 && <p className="text-center py-12 text-slate-400 text-sm italic">Nothing to flag in this period.</p>}
+      </div>
+    </div>
+  );
+}
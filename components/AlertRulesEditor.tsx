@@ -0,0 +1,64 @@
+
+import React from 'react';
+import { BellRing, Plus, Trash2 } from 'lucide-react';
+import { AlertMetric, AlertRule } from '../types';
+import { ALERT_METRIC_KIND, ALERT_METRIC_LABELS } from '../utils/alerts';
+
+const UNIT_LABELS = { money: '$', ratio: 'x', percent: '%' };
+
+export default function AlertRulesEditor({ rules, onChange }: {
+  rules: AlertRule[]; onChange: (rules: AlertRule[]) => void;
+}) {
+  const update = (id: string, patch: Partial<AlertRule>) => onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const addRule = () => onChange([...rules, {
+    id: Date.now().toString(), name: '', metric: 'roas', scope: 'daily', comparator: 'below', threshold: 2, days: 3, enabled: true
+  }]);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="font-bold text-slate-800 flex items-center"><BellRing className="w-5 h-5 mr-2 text-indigo-600" /> Alert Rules</h3>
+        <button onClick={addRule} className="p-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100">
+          <Plus className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="space-y-3">
+        {rules.map(rule => (
+          <div key={rule.id} className={`bg-slate-50 p-3 rounded-xl border border-slate-100 space-y-2 ${rule.enabled ? '' : 'opacity-60'}`}>
+            <div className="flex items-center space-x-3">
+              <input type="checkbox" checked={rule.enabled} onChange={(e) => update(rule.id, { enabled: e.target.checked })} title="Enabled" />
+              <input type="text" placeholder="Name (optional)" className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm" value={rule.name} onChange={(e) => update(rule.id, { name: e.target.value })} />
+              <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-slate-300 hover:text-rose-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <select className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white font-semibold text-slate-600" value={rule.metric} onChange={(e) => update(rule.id, { metric: e.target.value as AlertMetric })}>
+                {(Object.keys(ALERT_METRIC_LABELS) as AlertMetric[]).map(m => <option key={m} value={m}>{ALERT_METRIC_LABELS[m]}</option>)}
+              </select>
+              <select className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white font-semibold text-slate-600" value={rule.comparator} onChange={(e) => update(rule.id, { comparator: e.target.value as AlertRule['comparator'] })}>
+                <option value="below">below</option>
+                <option value="above">above</option>
+              </select>
+              <label className="flex items-center space-x-1">
+                <input type="number" step="0.01" className="w-24 px-2 py-1.5 border border-slate-200 rounded-lg bg-white text-right" value={rule.threshold} onChange={(e) => update(rule.id, { threshold: parseFloat(e.target.value) || 0 })} />
+                <span className="text-slate-400 font-bold">{UNIT_LABELS[ALERT_METRIC_KIND[rule.metric]]}{rule.scope === 'daily' && ALERT_METRIC_KIND[rule.metric] === 'money' ? ' / day' : ''}</span>
+              </label>
+              <select className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white font-semibold text-slate-600 ml-auto" value={rule.scope} onChange={(e) => update(rule.id, { scope: e.target.value as AlertRule['scope'] })}>
+                <option value="daily">Daily</option>
+                <option value="period">Whole period</option>
+              </select>
+              {rule.scope === 'daily' && (
+                <label className="flex items-center space-x-1">
+                  <span className="text-slate-400 font-bold">for</span>
+                  <input type="number" min={1} className="w-14 px-2 py-1.5 border border-slate-200 rounded-lg bg-white text-right" value={rule.days} onChange={(e) => update(rule.id, { days: Math.max(1, parseInt(e.target.value) || 1) })} />
+                  <span className="text-slate-400 font-bold">days</span>
+                </label>
+              )}
+            </div>
+          </div>
+        ))}
+        {rules.length === 0 && <p className="text-center py-10 text-slate-400 text-sm italic">No alert rules yet. Try "ROAS below 2 for 3 days". Anomalies in sales and ad spend are flagged automatically.</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+
+import React, { useMemo, useState } from 'react';
+import { Target, Plus, Trash2 } from 'lucide-react';
+import { ShopifyOrder, MetaAdReport, AttributionRule } from '../types';
+import { computeSkuAttribution, SkuProfitRow, UnitCostLookup } from '../utils/attribution';
+import { nextSort, sortRows, SortState } from '../utils/sorting';
+import SortableHeader from './SortableHeader';
+
+type SortKey = keyof SkuProfitRow;
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'sku', label: 'SKU' },
+  { key: 'units', label: 'Units' },
+  { key: 'revenue', label: 'Revenue' },
+  { key: 'cogs', label: 'COGS' },
+  { key: 'adSpend', label: 'Ad Spend' },
+  { key: 'contribution', label: 'Contribution' },
+  { key: 'contributionMargin', label: 'Margin' },
+  { key: 'roas', label: 'ROAS' },
+];
+
+export default function AttributionView({ orders, ads, rules, unitCost, restockRefunds, formatVal, onRulesChange }: {
+  orders: ShopifyOrder[];
+  ads: MetaAdReport[];
+  rules: AttributionRule[];
+  unitCost: UnitCostLookup;
+  restockRefunds: boolean;
+  formatVal: (amount: number) => string;
+  onRulesChange: (rules: AttributionRule[]) => void;
+}) {
+  const [sort, setSort] = useState<SortState<SortKey>>({ key: 'adSpend', desc: true });
+
+  const result = useMemo(() => computeSkuAttribution(orders, ads, rules, unitCost, restockRefunds), [orders, ads, rules, unitCost, restockRefunds]);
+  const campaignNames = useMemo(() => Array.from(new Set(ads.map(a => a.campaignName))).sort(), [ads]);
+
+  const sorted = useMemo(() => sortRows(result.rows, sort.key, sort.desc), [result, sort]);
+
+  const update = (id: string, patch: Partial<AttributionRule>) => onRulesChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  const addRule = () => onRulesChange([...rules, {
+    id: Date.now().toString(), campaignMatch: 'contains', campaignValue: '', productMatch: 'pattern', skus: [], productPattern: ''
+  }]);
+
+  const formatCell = (row: SkuProfitRow, key: SortKey) => {
+    switch (key) {
+      case 'revenue': case 'cogs': case 'adSpend': case 'contribution': return formatVal(row[key]);
+      case 'contributionMargin': return `${row.contributionMargin.toFixed(1)}%`;
+      case 'roas': return row.adSpend > 0 ? row.roas.toFixed(2) : '—';
+      default: return row[key];
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900">Ad Attribution</h2>
+        <p className="text-sm text-slate-500">Campaign spend allocated to SKUs by revenue share</p>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="font-bold text-slate-800 flex items-center"><Target className="w-5 h-5 mr-2 text-indigo-600" /> Campaign → Product Rules</h3>
+          <button onClick={addRule} className="p-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100">
+            <Plus className="w-5 h-5" />
+          </button>
+        </div>
+        <datalist id="attribution-campaigns">
+          {campaignNames.map(name => <option key={name} value={name} />)}
+        </datalist>
+        <div className="space-y-3">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex flex-wrap items-center gap-2 bg-slate-50 p-3 rounded-xl border border-slate-100 text-xs">
+              <span className="font-bold text-slate-400 uppercase text-[10px]">Campaign</span>
+              <select className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white font-semibold text-slate-600" value={rule.campaignMatch} onChange={(e) => update(rule.id, { campaignMatch: e.target.value as AttributionRule['campaignMatch'] })}>
+                <option value="contains">matches pattern</option>
+                <option value="exact">is exactly</option>
+              </select>
+              <input type="text" list="attribution-campaigns" placeholder="e.g. *Hoodie*" className="w-48 px-2 py-1.5 border border-slate-200 rounded-lg bg-white" value={rule.campaignValue} onChange={(e) => update(rule.id, { campaignValue: e.target.value })} />
+              <span className="font-bold text-slate-400 uppercase text-[10px] ml-2">funds</span>
+              <select className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white font-semibold text-slate-600" value={rule.productMatch} onChange={(e) => update(rule.id, { productMatch: e.target.value as AttributionRule['productMatch'] })}>
+                <option value="pattern">SKUs / titles matching</option>
+                <option value="skus">these SKUs</option>
+              </select>
+              {rule.productMatch === 'pattern' ? (
+                <input type="text" placeholder="e.g. HOOD-*" className="flex-1 min-w-[120px] px-2 py-1.5 border border-slate-200 rounded-lg bg-white" value={rule.productPattern} onChange={(e) => update(rule.id, { productPattern: e.target.value })} />
+              ) : (
+                <input type="text" placeholder="SKU-1, SKU-2" className="flex-1 min-w-[120px] px-2 py-1.5 border border-slate-200 rounded-lg bg-white" value={rule.skus.join(', ')} onChange={(e) => update(rule.id, { skus: e.target.value.split(',').map(s => s.trim()).filter(Boolean) })} />
+              )}
+              <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} className="text-slate-300 hover:text-rose-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          ))}
+          {rules.length === 0 && <p className="text-center py-6 text-slate-400 text-sm italic">No rules yet. All spend is blended across products by revenue share.</p>}
+        </div>
+        <div className="grid grid-cols-3 gap-6 mt-6 pt-6 border-t border-slate-100">
+          <div>
+            <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Attributed by rule</p>
+            <p className="text-lg font-black text-slate-900">{formatVal(result.attributedSpend)}</p>
+          </div>
+          <div>
+            <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Blended ({result.unmatchedCampaigns.length} campaigns)</p>
+            <p className="text-lg font-black text-slate-900">{formatVal(result.blendedSpend)}</p>
+          </div>
+          <div>
+            <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">Unallocated</p>
+            <p className={`text-lg font-black ${result.unallocatedSpend > 0 ? 'text-rose-600' : 'text-slate-900'}`}>{formatVal(result.unallocatedSpend)}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-800">SKU Contribution</h3>
+          <span className="text-xs font-medium text-slate-400">{result.rows.length} SKUs</span>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 font-medium uppercase text-[10px] tracking-wider">
+              <tr>
+                <SortableHeader columns={COLUMNS} sort={sort} onSort={(key) => setSort(nextSort(sort, key, ['sku']))} />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sorted.map(row => (
+                <tr key={row.sku} className="hover:bg-slate-50 transition-colors">
+                  {COLUMNS.map(col => (
+                    <td key={col.key} className={`px-4 py-3 ${col.key === 'sku' ? 'font-bold text-slate-900' : col.key === 'contribution' && row.contribution < 0 ? 'font-semibold text-rose-600' : 'text-slate-700'}`}>
+                      {col.key === 'sku' ? (
+                        <>
+                          <span className="block text-[10px] font-black text-indigo-600">{row.sku}</span>
+                          <span className="block text-xs font-medium text-slate-500 truncate max-w-[220px]">{row.title}</span>
+                        </>
+                      ) : formatCell(row, col.key)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              {sorted.length === 0 && (
+                <tr>
+                  <td colSpan={COLUMNS.length} className="px-6 py-12 text-center text-slate-400 italic">No line items in this period. Upload an Orders report.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
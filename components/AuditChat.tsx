@@ -0,0 +1,90 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, Database, Trash2 } from 'lucide-react';
+import { ChatMessage } from '../types';
+import Markdown from './Markdown';
+
+const SUGGESTIONS = [
+  'Why did margin drop in the worst week of this period?',
+  'Which SKU should we stop advertising?',
+  'How does this month compare with last month?',
+];
+
+export default function AuditChat({ messages, isAnswering, onAsk, onClear }: {
+  messages: ChatMessage[];
+  isAnswering: boolean;
+  onAsk: (question: string) => void;
+  onClear: () => void;
+}) {
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => { endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' }); }, [messages.length, isAnswering]);
+
+  const submit = (question: string) => {
+    const text = question.trim();
+    if (!text || isAnswering) return;
+    onAsk(text);
+    setDraft('');
+  };
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-slate-800 flex items-center"><MessageSquare className="w-4 h-4 mr-2 text-indigo-500" /> Ask a Follow-up</h3>
+          <p className="text-xs text-slate-400 mt-0.5">Answers are looked up from your orders, ads, COGS and P&L for any date range.</p>
+        </div>
+        {messages.length > 0 && (
+          <button onClick={onClear} className="flex items-center text-xs font-semibold text-slate-400 hover:text-rose-600"><Trash2 className="w-3.5 h-3.5 mr-1" /> Clear</button>
+        )}
+      </div>
+
+      <div className="max-h-[32rem] overflow-y-auto p-6 space-y-4">
+        {messages.length === 0 && (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map(s => (
+              <button key={s} onClick={() => submit(s)} className="px-3 py-1.5 text-xs font-medium text-indigo-700 bg-indigo-50 rounded-xl hover:bg-indigo-100">{s}</button>
+            ))}
+          </div>
+        )}
+        {messages.map((message, i) => message.role === 'user' ? (
+          <div key={i} className="flex justify-end">
+            <p className="max-w-[80%] px-4 py-2.5 rounded-2xl rounded-br-sm bg-indigo-600 text-white text-sm">{message.text}</p>
+          </div>
+        ) : (
+          <div key={i} className="max-w-[90%] space-y-2">
+            {message.toolCalls && message.toolCalls.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {message.toolCalls.map((call, j) => (
+                  <span key={j} className="inline-flex items-center px-2 py-0.5 rounded-md bg-slate-100 text-[10px] font-mono text-slate-500"><Database className="w-3 h-3 mr-1" />{call}</span>
+                ))}
+              </div>
+            )}
+            <div className="px-4 py-3 rounded-2xl rounded-bl-sm bg-slate-50 border border-slate-100 text-sm">
+              <Markdown source={message.text} />
+            </div>
+          </div>
+        ))}
+        {isAnswering && (
+          <div className="flex items-center text-xs text-slate-400">
+            <div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin mr-2"></div>
+            Looking at your data...
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <form onSubmit={(e) => { e.preventDefault(); submit(draft); }} className="px-6 py-4 border-t border-slate-100 flex items-center space-x-3">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="e.g. Which campaigns had ROAS below 2 last week?"
+          className="flex-1 bg-slate-50 border border-slate-200 px-4 py-2.5 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button type="submit" disabled={isAnswering || !draft.trim()} className="p-2.5 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 disabled:opacity-40"><Send className="w-4 h-4" /></button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+
+import React from 'react';
+import { Download, Upload, Archive, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { BackupImportResult } from '../utils/backup';
+
+export default function BackupPanel({ onExport, onImport, lastImport, importError }: {
+  onExport: () => void;
+  onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  lastImport: BackupImportResult | null;
+  importError: string;
+}) {
+  return (
+    <div className="bg-white p-8 rounded-3xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="font-bold text-slate-800 flex items-center"><Archive className="w-5 h-5 mr-2 text-indigo-600" /> Backup & Restore</h3>
+          <p className="text-xs text-slate-500 mt-1">Export the whole workspace as one JSON file, or restore a backup into a new workspace.</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button onClick={onExport} className="inline-flex items-center px-4 py-2 text-xs font-bold rounded-xl bg-slate-900 text-white hover:bg-slate-800 transition-all">
+            <Download className="w-4 h-4 mr-2" /> Export Backup
+          </button>
+          <input type="file" id="upload-backup" className="hidden" accept=".json,application/json" onChange={onImport} />
+          <label htmlFor="upload-backup" className="inline-flex items-center px-4 py-2 text-xs font-bold rounded-xl bg-indigo-50 text-indigo-700 hover:bg-indigo-100 cursor-pointer transition-all">
+            <Upload className="w-4 h-4 mr-2" /> Import Backup
+          </label>
+        </div>
+      </div>
+
+      {importError && (
+        <div className="flex items-center p-4 bg-rose-50 border border-rose-200 rounded-xl text-sm text-rose-700">
+          <AlertCircle className="w-4 h-4 mr-2 shrink-0" /> {importError}
+        </div>
+      )}
+
+      {lastImport && (
+        <div className="space-y-3">
+          <div className="flex items-center p-4 bg-emerald-50 border border-emerald-200 rounded-xl text-sm text-emerald-700">
+            <CheckCircle2 className="w-4 h-4 mr-2 shrink-0" />
+            Restored {lastImport.importedCount} records into "{lastImport.workspaceName}".
+            {lastImport.issues.length > 0 && ` ${lastImport.issues.length} invalid records were skipped.`}
+          </div>
+          {lastImport.issues.length > 0 && (
+            <div className="max-h-48 overflow-y-auto border border-amber-200 rounded-xl divide-y divide-amber-100">
+              {lastImport.issues.map((issue, i) => (
+                <div key={i} className="px-4 py-2 text-xs text-amber-800 bg-amber-50">
+                  <span className="font-bold">{issue.collection}{issue.index >= 0 && ` #${issue.index + 1}`}</span>: {issue.message}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
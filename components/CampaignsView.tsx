@@ -0,0 +1,120 @@
+
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Megaphone } from 'lucide-react';
+import { MetaAdReport } from '../types';
+import { aggregateCampaigns, campaignSpendTrend, CampaignStats } from '../utils/campaigns';
+import { bucketLabel, Granularity, GRANULARITY_LABELS } from '../utils/dateRanges';
+import { matchesSearch, nextSort, sortRows, SortState } from '../utils/sorting';
+import SortableHeader from './SortableHeader';
+import SearchInput from './SearchInput';
+
+const LINE_COLORS = ['#6366f1', '#f43f5e', '#f59e0b', '#10b981', '#0ea5e9', '#8b5cf6', '#ec4899', '#64748b'];
+const DEFAULT_TREND_CAMPAIGNS = 5;
+
+type SortKey = keyof CampaignStats;
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'campaignName', label: 'Campaign' },
+  { key: 'spend', label: 'Spend' },
+  { key: 'impressions', label: 'Impr.' },
+  { key: 'clicks', label: 'Clicks' },
+  { key: 'ctr', label: 'CTR' },
+  { key: 'cpc', label: 'CPC' },
+  { key: 'cpm', label: 'CPM' },
+  { key: 'activeDays', label: 'Days' },
+];
+
+export default function CampaignsView({ ads, startDate, endDate, granularity, formatVal }: {
+  ads: MetaAdReport[]; startDate: string; endDate: string; granularity: Granularity; formatVal: (amount: number) => string;
+}) {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<SortState<SortKey>>({ key: 'spend', desc: true });
+  const [pinned, setPinned] = useState<string[] | null>(null);
+
+  const campaigns = useMemo(() => aggregateCampaigns(ads), [ads]);
+
+  const visible = useMemo(() => sortRows(campaigns.filter(c => matchesSearch(query, c.campaignName)), sort.key, sort.desc), [campaigns, query, sort]);
+
+  // Chart the biggest spenders until the user picks campaigns explicitly
+  const trendCampaigns = useMemo(() => pinned ?? [...campaigns].sort((a, b) => b.spend - a.spend).slice(0, DEFAULT_TREND_CAMPAIGNS).map(c => c.campaignName), [pinned, campaigns]);
+  const trend = useMemo(() => campaignSpendTrend(ads, trendCampaigns, startDate, endDate, granularity), [ads, trendCampaigns, startDate, endDate, granularity]);
+
+  const togglePinned = (name: string) => {
+    const current = trendCampaigns;
+    setPinned(current.includes(name) ? current.filter(n => n !== name) : [...current, name]);
+  };
+
+  const formatCell = (row: CampaignStats, key: SortKey) => {
+    switch (key) {
+      case 'spend': case 'cpc': case 'cpm': return formatVal(row[key]);
+      case 'ctr': return `${row.ctr.toFixed(2)}%`;
+      case 'impressions': case 'clicks': return row[key].toLocaleString();
+      default: return row[key];
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900">Campaign Performance</h2>
+        <p className="text-sm text-slate-500">{campaigns.length} Meta campaigns active in the selected period</p>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+        <h3 className="font-semibold text-slate-800 mb-6 flex items-center"><Megaphone className="w-4 h-4 mr-2 text-indigo-500" /> Spend by Campaign · {GRANULARITY_LABELS[granularity]}</h3>
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="date" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(v) => bucketLabel(v, granularity)} />
+              <YAxis stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} tickFormatter={(v) => new Intl.NumberFormat('en-US', { notation: 'compact' }).format(v)} />
+              <Tooltip formatter={(v: number) => formatVal(v)} labelFormatter={(v) => bucketLabel(v, granularity)} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.08)' }} />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              {/* An accessor rather than a string key: recharts reads "." and "[" in campaign names as a path */}
+              {trendCampaigns.map((name, i) => (
+                <Line key={name} type="monotone" name={name} dataKey={(row) => row[name]} stroke={LINE_COLORS[i % LINE_COLORS.length]} strokeWidth={2} dot={false} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-800">Campaigns</h3>
+          <SearchInput value={query} placeholder="Filter campaigns" onChange={setQuery} />
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 font-medium uppercase text-[10px] tracking-wider">
+              <tr>
+                <th className="px-4 py-3 w-8" title="Show in chart"></th>
+                <SortableHeader columns={COLUMNS} sort={sort} onSort={(key) => setSort(nextSort(sort, key, ['campaignName']))} />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visible.map(row => (
+                <tr key={row.campaignName} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-4 py-3">
+                    <input type="checkbox" checked={trendCampaigns.includes(row.campaignName)} onChange={() => togglePinned(row.campaignName)} />
+                  </td>
+                  {COLUMNS.map(col => (
+                    <td key={col.key} className={`px-4 py-3 ${col.key === 'campaignName' ? 'font-bold text-slate-900 max-w-xs truncate' : 'text-slate-700'}`}>
+                      {formatCell(row, col.key)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              {visible.length === 0 && (
+                <tr>
+                  <td colSpan={COLUMNS.length + 1} className="px-6 py-12 text-center text-slate-400 italic">No campaign data in this period. Upload a Meta Ads report.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+
+import React, { useState } from 'react';
+import { FileSpreadsheet, X } from 'lucide-react';
+import { CogsDiffRow, CogsDiffStatus, COGS_DIFF_LABELS } from '../utils/cogs';
+
+const STATUS_STYLES: Record<CogsDiffStatus, string> = {
+  changed: 'bg-indigo-50 text-indigo-700',
+  new: 'bg-emerald-50 text-emerald-700',
+  unknown: 'bg-amber-50 text-amber-700',
+  unchanged: 'bg-slate-100 text-slate-400',
+};
+
+export default function CogsImportPreview({ diff, onCancel, onConfirm }: {
+  diff: CogsDiffRow[];
+  onCancel: () => void;
+  onConfirm: (includeUnknown: boolean) => void;
+}) {
+  const [filter, setFilter] = useState<CogsDiffStatus | 'all'>('all');
+  const [includeUnknown, setIncludeUnknown] = useState(false);
+
+  const counts = diff.reduce((acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }), { changed: 0, new: 0, unknown: 0, unchanged: 0 } as Record<CogsDiffStatus, number>);
+  const visible = filter === 'all' ? diff : diff.filter(row => row.status === filter);
+  const applyCount = counts.changed + counts.new + (includeUnknown ? counts.unknown : 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="font-bold text-slate-900 flex items-center"><FileSpreadsheet className="w-5 h-5 mr-2 text-indigo-600" /> COGS Import Preview</h3>
+            <p className="text-xs text-slate-500 mt-1">{diff.length} cost rows · unit costs in USD</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-700"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-8 py-3 border-b border-slate-100 flex flex-wrap gap-2">
+          {(['all', 'changed', 'new', 'unknown', 'unchanged'] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setFilter(status)}
+              className={`px-3 py-1.5 text-xs font-semibold rounded-lg transition-all ${filter === status ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+            >
+              {status === 'all' ? `All (${diff.length})` : `${COGS_DIFF_LABELS[status]} (${counts[status]})`}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 font-medium uppercase text-[10px] tracking-wider sticky top-0">
+              <tr>
+                <th className="px-6 py-3">Product</th>
+                <th className="px-6 py-3">Effective</th>
+                <th className="px-6 py-3 text-right">Before</th>
+                <th className="px-6 py-3 text-right">After</th>
+                <th className="px-6 py-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visible.map(row => (
+                <tr key={`${row.sku}|${row.effectiveFrom || ''}`} className={row.status === 'unchanged' ? 'opacity-60' : ''}>
+                  <td className="px-6 py-3">
+                    <span className="block text-[10px] font-black text-indigo-600">{row.sku}</span>
+                    <span className="block text-xs font-medium text-slate-500 truncate max-w-[240px]">{row.productName}</span>
+                  </td>
+                  <td className="px-6 py-3 text-xs text-slate-500">{row.effectiveFrom || 'Base cost'}</td>
+                  <td className="px-6 py-3 text-right text-slate-500">{row.before === null ? '—' : row.before.toFixed(2)}</td>
+                  <td className="px-6 py-3 text-right font-bold text-slate-900">{row.after.toFixed(2)}</td>
+                  <td className="px-6 py-3">
+                    <span className={`px-2 py-1 rounded-lg text-[10px] font-bold uppercase ${STATUS_STYLES[row.status]}`}>{COGS_DIFF_LABELS[row.status]}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 flex items-center justify-between">
+          <label className="flex items-center space-x-2 text-xs font-semibold text-slate-600">
+            <input type="checkbox" checked={includeUnknown} disabled={counts.unknown === 0} onChange={(e) => setIncludeUnknown(e.target.checked)} />
+            <span>Add {counts.unknown} unknown SKUs to the ledger</span>
+          </label>
+          <div className="flex items-center space-x-3">
+            <button onClick={onCancel} className="px-4 py-2 text-xs font-bold rounded-xl text-slate-500 hover:bg-slate-100">Cancel Import</button>
+            <button
+              onClick={() => onConfirm(includeUnknown)}
+              disabled={applyCount === 0}
+              className="px-5 py-2 text-xs font-bold rounded-xl bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-40"
+            >
+              Apply {applyCount} updates
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
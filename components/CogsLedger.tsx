@@ -0,0 +1,126 @@
+
+import React, { useState } from 'react';
+import { Info, AlertCircle, History, Plus, Trash2, ChevronDown, ChevronRight, Upload, Download } from 'lucide-react';
+import { ProductCOGS, CostChange } from '../types';
+import { costOnDate, isPriced } from '../utils/cogs';
+
+export default function CogsLedger({ cogs, today, onChange, onUpload, onExport }: {
+  cogs: ProductCOGS[];
+  // Current day in the workspace timezone; new cost changes take effect from it
+  today: string;
+  onChange: (cogs: ProductCOGS[]) => void;
+  onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onExport: () => void;
+}) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const update = (sku: string, patch: Partial<ProductCOGS>) => onChange(cogs.map(c => c.sku === sku ? { ...c, ...patch } : c));
+  const setHistory = (item: ProductCOGS, history: CostChange[]) =>
+    update(item.sku, { priced: true, history: [...history].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)) });
+
+  // A new change starts today at the current cost so only the amount needs typing
+  const addChange = (item: ProductCOGS) => {
+    setHistory(item, [...item.history, { effectiveFrom: today, cogs: costOnDate(item, today) }]);
+    setExpanded(item.sku);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-slate-800 flex items-center"><Info className="w-5 h-5 mr-2 text-indigo-600" /> Product COGS Ledger</h3>
+        <div className="flex items-center space-x-2">
+          <input type="file" id="upload-cogs" className="hidden" accept=".csv" onChange={onUpload} />
+          <label htmlFor="upload-cogs" className="inline-flex items-center px-3 py-1.5 text-[10px] font-bold rounded-lg bg-slate-900 text-white hover:bg-slate-800 cursor-pointer">
+            <Upload className="w-3.5 h-3.5 mr-1.5" /> Cost CSV
+          </label>
+          <button onClick={onExport} disabled={cogs.length === 0} className="inline-flex items-center px-3 py-1.5 text-[10px] font-bold rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-40">
+            <Download className="w-3.5 h-3.5 mr-1.5" /> Export
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 mb-6">SKUs are detected from orders. Unit costs are in USD; dated changes apply from their effective date.</p>
+      <div className="space-y-4 max-h-[500px] overflow-y-auto pr-2">
+        {cogs.map(item => {
+          const isOpen = expanded === item.sku;
+          return (
+            <div key={item.sku} className="bg-slate-50 p-4 rounded-xl border border-slate-100">
+              <div className="flex items-center justify-between">
+                <button onClick={() => setExpanded(isOpen ? null : item.sku)} className="max-w-[55%] flex items-start text-left">
+                  {isOpen ? <ChevronDown className="w-4 h-4 mr-1 mt-0.5 text-slate-400 shrink-0" /> : <ChevronRight className="w-4 h-4 mr-1 mt-0.5 text-slate-400 shrink-0" />}
+                  <span className="min-w-0">
+                    <span className="block text-[10px] font-black text-indigo-600 truncate">{item.sku}</span>
+                    <span className="block text-sm font-semibold text-slate-700 truncate">{item.productName}</span>
+                  </span>
+                </button>
+                <div className="flex items-center space-x-3">
+                  {item.history.length > 0 && (
+                    <span className="flex items-center text-[10px] font-bold text-slate-400" title="Dated cost changes">
+                      <History className="w-3 h-3 mr-1" /> {item.history.length}
+                    </span>
+                  )}
+                  <span className="text-[10px] text-slate-400 font-bold">{item.history.length > 0 ? 'Current' : 'Unit Cost'} (USD)</span>
+                  {item.history.length > 0 ? (
+                    <span className="w-24 px-3 text-right font-bold text-sm text-slate-900">{costOnDate(item, today).toFixed(2)}</span>
+                  ) : (
+                    <input
+                      type="number"
+                      className="w-24 px-3 py-1.5 bg-white border border-slate-200 rounded-lg font-bold text-sm text-right text-slate-900"
+                      value={isPriced(item) ? item.cogs : ''}
+                      placeholder="0.00"
+                      onChange={(e) => update(item.sku, { cogs: parseFloat(e.target.value) || 0, priced: e.target.value !== '' })}
+                    />
+                  )}
+                  <button onClick={() => addChange(item)} className="p-1.5 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100" title="Add a dated cost change">
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {isOpen && (
+                <div className="mt-4 ml-5 pl-4 border-l-2 border-indigo-100 space-y-2 text-xs">
+                  <div className="flex items-center space-x-3">
+                    <span className="w-36 font-bold text-slate-400">{item.history.length > 0 ? `Before ${item.history[0].effectiveFrom}` : 'All dates'}</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      className="w-24 px-3 py-1.5 bg-white border border-slate-200 rounded-lg font-bold text-right text-slate-900"
+                      value={item.cogs || ''}
+                      placeholder="0.00"
+                      onChange={(e) => update(item.sku, { cogs: parseFloat(e.target.value) || 0 })}
+                    />
+                    <span className="text-[10px] text-slate-400 font-bold uppercase">Base cost</span>
+                  </div>
+                  {item.history.map((change, i) => (
+                    <div key={i} className="flex items-center space-x-3">
+                      <input
+                        type="date"
+                        className="w-36 px-2 py-1 border border-slate-200 rounded-lg bg-white text-slate-600"
+                        value={change.effectiveFrom}
+                        onChange={(e) => e.target.value && setHistory(item, item.history.map((h, j) => j === i ? { ...h, effectiveFrom: e.target.value } : h))}
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        className="w-24 px-3 py-1.5 bg-white border border-slate-200 rounded-lg font-bold text-right text-slate-900"
+                        value={change.cogs || ''}
+                        placeholder="0.00"
+                        onChange={(e) => setHistory(item, item.history.map((h, j) => j === i ? { ...h, cogs: parseFloat(e.target.value) || 0 } : h))}
+                      />
+                      <button onClick={() => setHistory(item, item.history.filter((_, j) => j !== i))} className="text-slate-300 hover:text-rose-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {cogs.length === 0 && (
+          <div className="text-center py-20 bg-slate-50 rounded-2xl border border-dashed border-slate-200">
+            <AlertCircle className="w-8 h-8 text-slate-300 mx-auto mb-3" />
+            <p className="text-slate-400 text-sm font-medium">Upload "Orders Report" to auto-detect SKUs.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
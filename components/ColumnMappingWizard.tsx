@@ -0,0 +1,118 @@
+
+import React, { useMemo, useState } from 'react';
+import { Columns, X, AlertCircle, Bookmark } from 'lucide-react';
+import { ImportProfile, ColumnMapping } from '../types';
+import { IMPORT_FIELDS, MappableReportType, missingRequiredFields } from '../utils/columnMapping';
+
+const PREVIEW_ROWS = 5;
+
+export default function ColumnMappingWizard({ type, fileName, headers, rows, initialMapping, detectedProfile, profiles, onCancel, onConfirm, onDeleteProfile }: {
+  type: MappableReportType;
+  fileName: string;
+  headers: string[];
+  rows: any[];
+  initialMapping: ColumnMapping;
+  detectedProfile?: ImportProfile;
+  profiles: ImportProfile[];
+  onCancel: () => void;
+  onConfirm: (mapping: ColumnMapping, saveAsProfile?: string) => void;
+  onDeleteProfile: (id: string) => void;
+}) {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [profileName, setProfileName] = useState<string>(detectedProfile?.name || '');
+  const [saveProfile, setSaveProfile] = useState(!detectedProfile);
+
+  const fields = IMPORT_FIELDS[type];
+  const missing = useMemo(() => missingRequiredFields(type, mapping), [type, mapping]);
+  const typeProfiles = profiles.filter(p => p.type === type);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="font-bold text-slate-900 flex items-center"><Columns className="w-5 h-5 mr-2 text-indigo-600" /> Map Columns</h3>
+            <p className="text-xs text-slate-500 mt-1">{fileName} · {rows.length} rows</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-700"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 py-6 space-y-6">
+          {typeProfiles.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-[10px] font-bold uppercase text-slate-400 mr-2">Saved profiles</span>
+              {typeProfiles.map(p => (
+                <span key={p.id} className={`inline-flex items-center px-2 py-1 rounded-lg text-[10px] font-bold border ${p.id === detectedProfile?.id ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-slate-50 border-slate-200 text-slate-600'}`}>
+                  <button onClick={() => { setMapping(p.mapping); setProfileName(p.name); setSaveProfile(false); }}>{p.name}</button>
+                  {p.id === detectedProfile?.id && <span className="ml-1 opacity-70">(detected)</span>}
+                  <button onClick={() => onDeleteProfile(p.id)} className="ml-1.5 text-slate-300 hover:text-rose-500"><X className="w-3 h-3" /></button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {fields.map(field => (
+              <div key={field.key} className="flex items-center justify-between bg-slate-50 px-4 py-2.5 rounded-xl border border-slate-100">
+                <span className="text-sm font-semibold text-slate-700">
+                  {field.label}{field.required && <span className="text-rose-500 ml-0.5">*</span>}
+                </span>
+                <select
+                  className={`w-52 px-2 py-1.5 border rounded-lg bg-white text-xs ${field.required && !mapping[field.key] ? 'border-rose-300' : 'border-slate-200'}`}
+                  value={mapping[field.key] || ''}
+                  onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value })}
+                >
+                  <option value="">— not mapped —</option>
+                  {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto border border-slate-200 rounded-xl">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-slate-50 text-slate-500 font-medium uppercase text-[10px] tracking-wider">
+                <tr>
+                  {fields.filter(f => mapping[f.key]).map(f => <th key={f.key} className="px-3 py-2 whitespace-nowrap">{f.label}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <tr key={i}>
+                    {fields.filter(f => mapping[f.key]).map(f => (
+                      <td key={f.key} className="px-3 py-2 text-slate-700 whitespace-nowrap max-w-[180px] truncate">{row[mapping[f.key]]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 flex flex-wrap items-center justify-between gap-4">
+          <label className="flex items-center space-x-2 text-xs text-slate-600">
+            <input type="checkbox" checked={saveProfile} onChange={(e) => setSaveProfile(e.target.checked)} />
+            <Bookmark className="w-3.5 h-3.5 text-slate-400" />
+            <span>Save as profile</span>
+            <input type="text" disabled={!saveProfile} placeholder="e.g. Meta export (Urdu)" className="px-2 py-1 border border-slate-200 rounded-lg text-xs disabled:opacity-40" value={profileName} onChange={(e) => setProfileName(e.target.value)} />
+          </label>
+          <div className="flex items-center space-x-3">
+            {missing.length > 0 && (
+              <span className="flex items-center text-[10px] font-bold text-rose-600">
+                <AlertCircle className="w-3.5 h-3.5 mr-1" /> Map {missing.map(f => f.label).join(', ')}
+              </span>
+            )}
+            <button onClick={onCancel} className="px-4 py-2 text-xs font-bold rounded-xl text-slate-500 hover:bg-slate-100">Cancel</button>
+            <button
+              onClick={() => onConfirm(mapping, saveProfile && profileName.trim() ? profileName.trim() : undefined)}
+              disabled={missing.length > 0}
+              className="px-5 py-2 text-xs font-bold rounded-xl bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-40"
+            >
+              Import {rows.length} rows
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
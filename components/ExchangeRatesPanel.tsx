@@ -0,0 +1,57 @@
+
+import React, { useMemo, useState } from 'react';
+import { Globe, Plus, Trash2, Upload } from 'lucide-react';
+import { Currency, ExchangeRate } from '../types';
+import { CURRENCIES, DEFAULT_RATES_PER_USD, rateKey } from '../utils/currency';
+
+export default function ExchangeRatesPanel({ rates, defaultDate, onChange, onUpload }: {
+  rates: ExchangeRate[];
+  defaultDate: string;
+  onChange: (rates: ExchangeRate[]) => void;
+  onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}) {
+  const [draft, setDraft] = useState<ExchangeRate>({ date: defaultDate, currency: 'PKR', perUsd: 0 });
+
+  const sorted = useMemo(() => [...rates].sort((a, b) => b.date.localeCompare(a.date) || a.currency.localeCompare(b.currency)), [rates]);
+
+  const addRate = () => {
+    if (!draft.date || draft.perUsd <= 0) return;
+    // Entering a rate for an existing day and currency corrects it rather than adding a second one
+    onChange([...rates.filter(r => rateKey(r) !== rateKey(draft)), draft]);
+    setDraft({ ...draft, perUsd: 0 });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-slate-800 flex items-center"><Globe className="w-5 h-5 mr-2 text-indigo-600" /> Exchange Rates</h3>
+        <input type="file" id="upload-exchange_rates" className="hidden" accept=".csv" onChange={onUpload} />
+        <label htmlFor="upload-exchange_rates" className="inline-flex items-center px-3 py-1.5 text-[10px] font-bold rounded-lg bg-slate-900 text-white hover:bg-slate-800 cursor-pointer">
+          <Upload className="w-3.5 h-3.5 mr-1.5" /> Rate CSV
+        </label>
+      </div>
+      <p className="text-xs text-slate-500 mb-6">Units per 1 USD. Each record converts at the latest rate on or before its own date.</p>
+
+      <div className="flex items-center space-x-2 mb-4 text-xs">
+        <input type="date" className="px-2 py-1.5 border border-slate-200 rounded-lg text-slate-600" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} />
+        <select className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white font-semibold text-slate-600" value={draft.currency} onChange={(e) => setDraft({ ...draft, currency: e.target.value as Currency })}>
+          {CURRENCIES.filter(c => c !== 'USD').map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <input type="number" step="0.0001" className="flex-1 px-2 py-1.5 border border-slate-200 rounded-lg text-right" placeholder={`${DEFAULT_RATES_PER_USD[draft.currency]}`} value={draft.perUsd || ''} onChange={(e) => setDraft({ ...draft, perUsd: parseFloat(e.target.value) || 0 })} />
+        <button onClick={addRate} className="p-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100"><Plus className="w-4 h-4" /></button>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto divide-y divide-slate-100">
+        {sorted.map(rate => (
+          <div key={rateKey(rate)} className="flex items-center justify-between py-2 text-sm">
+            <span className="text-slate-500">{rate.date}</span>
+            <span className="font-bold text-indigo-600 text-xs">{rate.currency}</span>
+            <span className="font-semibold text-slate-800 w-24 text-right">{rate.perUsd}</span>
+            <button onClick={() => onChange(rates.filter(r => rateKey(r) !== rateKey(rate)))} className="text-slate-300 hover:text-rose-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        ))}
+        {sorted.length === 0 && <p className="text-center py-6 text-slate-400 text-sm italic">No rates loaded. Built-in defaults are used (e.g. 1 USD = {DEFAULT_RATES_PER_USD.PKR} PKR).</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+
+import React from 'react';
+import { Percent, Plus, Trash2 } from 'lucide-react';
+import { FeeRule, FeeRuleKind } from '../types';
+import { FEE_KIND_LABELS } from '../utils/fees';
+
+export default function FeeRulesEditor({ rules, defaultDate, onChange }: {
+  rules: FeeRule[]; defaultDate: string; onChange: (rules: FeeRule[]) => void;
+}) {
+  const update = (id: string, patch: Partial<FeeRule>) => onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const addRule = () => onChange([...rules, {
+    id: Date.now().toString(), name: '', kind: 'percentage', percentage: 0, fixedAmount: 0, effectiveFrom: defaultDate
+  }]);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="font-bold text-slate-800 flex items-center"><Percent className="w-5 h-5 mr-2 text-indigo-600" /> Fee Rules</h3>
+        <button onClick={addRule} className="p-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100">
+          <Plus className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="space-y-3">
+        {rules.map(rule => (
+          <div key={rule.id} className="bg-slate-50 p-3 rounded-xl border border-slate-100 space-y-2">
+            <div className="flex items-center space-x-3">
+              <input type="text" placeholder="e.g. Payment gateway" className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm" value={rule.name} onChange={(e) => update(rule.id, { name: e.target.value })} />
+              <select className="px-2 py-2 border border-slate-200 rounded-lg bg-white text-xs font-semibold text-slate-600" value={rule.kind} onChange={(e) => update(rule.id, { kind: e.target.value as FeeRuleKind })}>
+                {(Object.keys(FEE_KIND_LABELS) as FeeRuleKind[]).map(k => <option key={k} value={k}>{FEE_KIND_LABELS[k]}</option>)}
+              </select>
+              <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-slate-300 hover:text-rose-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {rule.kind === 'payment_method' && (
+                <input type="text" placeholder="Method, e.g. COD" className="w-32 px-2 py-1.5 border border-slate-200 rounded-lg bg-white" value={rule.paymentMethod || ''} onChange={(e) => update(rule.id, { paymentMethod: e.target.value })} />
+              )}
+              {(rule.kind === 'percentage' || rule.kind === 'payment_method') && (
+                <label className="flex items-center space-x-1">
+                  <input type="number" step="0.01" className="w-20 px-2 py-1.5 border border-slate-200 rounded-lg bg-white text-right" value={rule.percentage || ''} placeholder="0" onChange={(e) => update(rule.id, { percentage: parseFloat(e.target.value) || 0 })} />
+                  <span className="text-slate-400 font-bold">%</span>
+                </label>
+              )}
+              <label className="flex items-center space-x-1">
+                <span className="text-slate-400 font-bold">{rule.kind === 'monthly_flat' ? '$ / month' : rule.kind === 'fixed_per_order' ? '$ / order' : '+ $'}</span>
+                <input type="number" step="0.01" className="w-20 px-2 py-1.5 border border-slate-200 rounded-lg bg-white text-right" value={rule.fixedAmount || ''} placeholder="0" onChange={(e) => update(rule.id, { fixedAmount: parseFloat(e.target.value) || 0 })} />
+              </label>
+              <span className="text-slate-400 font-bold ml-auto">From</span>
+              <input type="date" className="px-2 py-1 border border-slate-200 rounded-lg bg-white text-slate-600" value={rule.effectiveFrom} onChange={(e) => update(rule.id, { effectiveFrom: e.target.value })} />
+              <span className="text-slate-300">—</span>
+              <input type="date" className="px-2 py-1 border border-slate-200 rounded-lg bg-white text-slate-600" value={rule.effectiveTo || ''} onChange={(e) => update(rule.id, { effectiveTo: e.target.value || undefined })} />
+            </div>
+          </div>
+        ))}
+        {rules.length === 0 && <p className="text-center py-10 text-slate-400 text-sm italic">No fee rules yet. A 3% estimate is used until rules or settlements are added.</p>}
+      </div>
+    </div>
+  );
+}
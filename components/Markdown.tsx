@@ -0,0 +1,64 @@
+
+import React from 'react';
+
+// Covers what the model actually returns: headings, lists, paragraphs, **bold**, *italic* and `code`
+const renderInline = (text: string) =>
+  text.split(/(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`)/g).map((part, i) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) return <strong key={i} className="font-semibold text-slate-900">{part.slice(2, -2)}</strong>;
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) return <code key={i} className="px-1 py-0.5 bg-slate-100 rounded text-xs">{part.slice(1, -1)}</code>;
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) return <em key={i}>{part.slice(1, -1)}</em>;
+    return part;
+  });
+
+type Block =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'paragraph'; text: string };
+
+const parseBlocks = (source: string): Block[] => {
+  const blocks: Block[] = [];
+  source.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    const last = blocks[blocks.length - 1];
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^[-*•]\s+(.*)$/);
+    const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+
+    if (!line) {
+      blocks.push({ kind: 'paragraph', text: '' });
+    } else if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+    } else if (bullet || numbered) {
+      const ordered = !!numbered;
+      const item = (bullet || numbered)![1];
+      if (last?.kind === 'list' && last.ordered === ordered) last.items.push(item);
+      else blocks.push({ kind: 'list', ordered, items: [item] });
+    } else if (last?.kind === 'paragraph' && last.text) {
+      last.text += ` ${line}`;
+    } else {
+      blocks.push({ kind: 'paragraph', text: line });
+    }
+  });
+  return blocks.filter(b => b.kind !== 'paragraph' || b.text);
+};
+
+export default function Markdown({ source, className = '' }: { source: string; className?: string }) {
+  return (
+    <div className={`space-y-3 text-slate-700 leading-relaxed ${className}`}>
+      {parseBlocks(source).map((block, i) => {
+        if (block.kind === 'heading') {
+          return <p key={i} className={`font-bold text-slate-900 ${block.level <= 2 ? 'text-lg' : 'text-base'}`}>{renderInline(block.text)}</p>;
+        }
+        if (block.kind === 'list') {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={i} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+              {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+            </List>
+          );
+        }
+        return <p key={i}>{renderInline(block.text)}</p>;
+      })}
+    </div>
+  );
+}
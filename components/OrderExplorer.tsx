@@ -0,0 +1,232 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, X, Receipt } from 'lucide-react';
+import { ShopifyOrder, FeeRule } from '../types';
+import { OrderOutcome, orderOutcome } from '../utils/pnl';
+import { ORDER_OUTCOME_LABELS, OrderQuery, OrderSortKey, queryOrders, computeOrderBreakdown } from '../utils/orders';
+import { normalizeOrderName, ReconciliationSummary } from '../utils/reconciliation';
+import { UnitCostLookup } from '../utils/attribution';
+import { nextSort } from '../utils/sorting';
+import SortableHeader from './SortableHeader';
+import SearchInput from './SearchInput';
+
+const PAGE_SIZE = 25;
+
+const COLUMNS: { key: OrderSortKey; label: string }[] = [
+  { key: 'name', label: 'Order' },
+  { key: 'date', label: 'Date' },
+  { key: 'items', label: 'Items' },
+  { key: 'total', label: 'Gross' },
+  { key: 'status', label: 'Status' },
+];
+
+const OUTCOME_STYLES: Record<OrderOutcome, string> = {
+  kept: 'bg-emerald-100 text-emerald-700',
+  partially_refunded: 'bg-amber-100 text-amber-700',
+  refunded: 'bg-rose-100 text-rose-700',
+  voided: 'bg-slate-100 text-slate-500',
+};
+
+const FEE_SOURCE_LABELS = {
+  settlement: 'Settlement',
+  rules: 'Fee rules',
+  estimate: 'Estimated',
+};
+
+function OrderDrawer({ order, feeRules, unitCost, convertUsd, restockRefunds, reconciliation, formatVal, onClose }: {
+  order: ShopifyOrder;
+  feeRules: FeeRule[];
+  restockRefunds: boolean;
+  unitCost: UnitCostLookup;
+  convertUsd: (amount: number, date: string) => number;
+  reconciliation: ReconciliationSummary;
+  formatVal: (amount: number) => string;
+  onClose: () => void;
+}) {
+  const settlement = reconciliation.rows.find(r => r.status !== 'missing' && normalizeOrderName(r.orderName) === normalizeOrderName(order.name));
+  const breakdown = computeOrderBreakdown(order, {
+    feeRules, unitCost, convertUsd, restockRefunds,
+    settlementFees: settlement?.fees,
+    hasSettlements: reconciliation.rows.some(r => r.status !== 'missing') || reconciliation.unmatched.length > 0
+  });
+
+  const summary = [
+    { label: 'Net sales', value: breakdown.netSales },
+    { label: 'COGS', value: -breakdown.cogs },
+    { label: `Fees (${FEE_SOURCE_LABELS[breakdown.feeSource]})`, value: -breakdown.fees },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex justify-end" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-200" onClick={(e) => e.stopPropagation()}>
+        <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="font-bold text-slate-900 flex items-center"><Receipt className="w-5 h-5 mr-2 text-indigo-600" /> {order.name}</h3>
+            <p className="text-xs text-slate-500 mt-1">{order.date} · {order.status}{order.paymentMethod ? ` · ${order.paymentMethod}` : ''}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-8 space-y-8">
+          <div>
+            <h4 className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-3">Line Items</h4>
+            <table className="w-full text-left text-sm">
+              <thead className="text-slate-500 font-medium uppercase text-[10px] tracking-wider">
+                <tr>
+                  <th className="py-2">Product</th>
+                  <th className="py-2 text-right">Qty</th>
+                  <th className="py-2 text-right">Price</th>
+                  <th className="py-2 text-right">Unit COGS</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {breakdown.lines.map((line, i) => (
+                  <tr key={`${line.sku}-${i}`}>
+                    <td className="py-2">
+                      <span className="block text-[10px] font-black text-indigo-600">{line.sku}</span>
+                      <span className="block text-xs text-slate-500 truncate max-w-[200px]">{line.title}</span>
+                    </td>
+                    <td className="py-2 text-right text-slate-700">{line.quantity}</td>
+                    <td className="py-2 text-right text-slate-700">{formatVal(line.price)}</td>
+                    <td className={`py-2 text-right ${line.unitCogs > line.price ? 'font-semibold text-rose-600' : 'text-slate-700'}`}>
+                      {line.unitCogs > 0 ? formatVal(line.unitCogs) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-slate-50 rounded-2xl p-5 space-y-2 text-sm">
+            {(breakdown.discount > 0 || breakdown.returns > 0) && (
+              <p className="text-xs text-slate-400">
+                Includes {formatVal(breakdown.discount)} discount and {formatVal(breakdown.returns)} refunded
+              </p>
+            )}
+            {breakdown.shipping > 0 && (
+              <p className="text-xs text-slate-400">{formatVal(breakdown.shipping)} shipping charged, passed through to the courier</p>
+            )}
+            {summary.map(row => (
+              <div key={row.label} className="flex justify-between">
+                <span className="text-slate-500">{row.label}</span>
+                <span className="font-medium text-slate-800">{formatVal(row.value)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between pt-2 border-t border-slate-200">
+              <span className="font-bold text-slate-900">Order profit</span>
+              <span className={`font-bold ${breakdown.profit < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>{formatVal(breakdown.profit)}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function OrderExplorer({ orders, feeRules, unitCost, convertUsd, restockRefunds, reconciliation, startDate, endDate, formatVal }: {
+  orders: ShopifyOrder[];
+  feeRules: FeeRule[];
+  restockRefunds: boolean;
+  unitCost: UnitCostLookup;
+  convertUsd: (amount: number, date: string) => number;
+  reconciliation: ReconciliationSummary;
+  startDate: string;
+  endDate: string;
+  formatVal: (amount: number) => string;
+}) {
+  const [query, setQuery] = useState<OrderQuery>({ search: '', outcome: 'all', from: '', to: '', sortKey: 'date', sortDesc: true });
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<ShopifyOrder | null>(null);
+
+  const results = useMemo(() => queryOrders(orders, query), [orders, query]);
+  const pageCount = Math.max(1, Math.ceil(results.length / PAGE_SIZE));
+  const rows = results.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  // Any change to the result set starts over from the first page
+  useEffect(() => setPage(0), [orders, query]);
+
+  const update = (patch: Partial<OrderQuery>) => setQuery(prev => ({ ...prev, ...patch }));
+  const toggleSort = (key: OrderSortKey) => {
+    const sort = nextSort({ key: query.sortKey, desc: query.sortDesc }, key, ['name', 'status']);
+    update({ sortKey: sort.key, sortDesc: sort.desc });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div>
+          <h3 className="font-semibold text-slate-800">Order Logs</h3>
+          <span className="text-xs font-medium text-slate-400">{results.length} of {orders.length} orders</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <SearchInput value={query.search} placeholder="Search order or SKU" onChange={(search) => update({ search })} />
+          <select
+            value={query.outcome}
+            onChange={(e) => update({ outcome: e.target.value as OrderQuery['outcome'] })}
+            className="bg-slate-50 border border-slate-200 px-3 py-1.5 rounded-xl text-xs font-semibold text-slate-600 focus:outline-none"
+          >
+            <option value="all">All statuses</option>
+            {(Object.keys(ORDER_OUTCOME_LABELS) as OrderOutcome[]).map(outcome => (
+              <option key={outcome} value={outcome}>{ORDER_OUTCOME_LABELS[outcome]}</option>
+            ))}
+          </select>
+          <input type="date" min={startDate} max={endDate} value={query.from} onChange={(e) => update({ from: e.target.value })} className="bg-slate-50 border border-slate-200 px-2 py-1.5 rounded-xl text-xs text-slate-600 focus:outline-none" />
+          <span className="text-slate-300">→</span>
+          <input type="date" min={startDate} max={endDate} value={query.to} onChange={(e) => update({ to: e.target.value })} className="bg-slate-50 border border-slate-200 px-2 py-1.5 rounded-xl text-xs text-slate-600 focus:outline-none" />
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 font-medium uppercase text-[10px] tracking-wider">
+            <tr>
+              <SortableHeader columns={COLUMNS} sort={{ key: query.sortKey, desc: query.sortDesc }} onSort={toggleSort} cellClassName="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(order => (
+              <tr key={`${order.id}-${order.name}`} className="hover:bg-slate-50 transition-colors cursor-pointer" onClick={() => setSelected(order)}>
+                <td className="px-6 py-4 font-bold text-slate-900">{order.name}</td>
+                <td className="px-6 py-4 text-slate-500">{order.date}</td>
+                <td className="px-6 py-4 text-slate-500">{order.lineItems.reduce((acc, item) => acc + item.quantity, 0)}</td>
+                <td className="px-6 py-4 font-semibold text-slate-900">{formatVal(order.total)}</td>
+                <td className="px-6 py-4">
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${OUTCOME_STYLES[orderOutcome(order.status)]}`}>
+                    {order.status}
+                  </span>
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={COLUMNS.length} className="px-6 py-12 text-center text-slate-400 italic">
+                  {orders.length === 0 ? 'No order data present. Please upload reports.' : 'No orders match the filters.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {pageCount > 1 && (
+        <div className="px-6 py-3 border-t border-slate-100 flex items-center justify-between text-xs text-slate-500">
+          <span>Page {page + 1} of {pageCount}</span>
+          <div className="flex items-center space-x-1">
+            <button disabled={page === 0} onClick={() => setPage(page - 1)} className="p-1.5 rounded-lg hover:bg-slate-100 disabled:opacity-30"><ChevronLeft className="w-4 h-4" /></button>
+            <button disabled={page >= pageCount - 1} onClick={() => setPage(page + 1)} className="p-1.5 rounded-lg hover:bg-slate-100 disabled:opacity-30"><ChevronRight className="w-4 h-4" /></button>
+          </div>
+        </div>
+      )}
+      {selected && (
+        <OrderDrawer
+          order={selected}
+          feeRules={feeRules}
+          unitCost={unitCost}
+          convertUsd={convertUsd}
+          restockRefunds={restockRefunds}
+          reconciliation={reconciliation}
+          formatVal={formatVal}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+}
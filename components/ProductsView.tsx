@@ -0,0 +1,134 @@
+
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line } from 'recharts';
+import { Package, AlertTriangle, AlertCircle } from 'lucide-react';
+import { ShopifyOrder } from '../types';
+import { aggregateProducts, ProductStats } from '../utils/products';
+import { UnitCostLookup } from '../utils/attribution';
+import { Granularity } from '../utils/dateRanges';
+import { matchesSearch, nextSort, sortRows, SortState } from '../utils/sorting';
+import SortableHeader from './SortableHeader';
+import SearchInput from './SearchInput';
+
+type SortKey = Exclude<keyof ProductStats, 'trend' | 'missingCogs' | 'belowCostUnits'>;
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'sku', label: 'Product' },
+  { key: 'units', label: 'Units' },
+  { key: 'revenue', label: 'Revenue' },
+  { key: 'unitCogs', label: 'Unit COGS' },
+  { key: 'grossProfit', label: 'Gross Profit' },
+  { key: 'margin', label: 'Margin' },
+];
+
+function Sparkline({ values }: { values: number[] }) {
+  return (
+    <LineChart width={96} height={28} data={values.map(v => ({ v }))}>
+      <Line type="monotone" dataKey="v" stroke="#6366f1" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+    </LineChart>
+  );
+}
+
+export default function ProductsView({ orders, unitCost, restockRefunds, hasCogs, startDate, endDate, granularity, formatVal }: {
+  orders: ShopifyOrder[];
+  unitCost: UnitCostLookup;
+  restockRefunds: boolean;
+  hasCogs: (sku: string) => boolean;
+  startDate: string;
+  endDate: string;
+  granularity: Granularity;
+  formatVal: (amount: number) => string;
+}) {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<SortState<SortKey>>({ key: 'grossProfit', desc: true });
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  const products = useMemo(() => aggregateProducts(orders, unitCost, restockRefunds, hasCogs, startDate, endDate, granularity), [orders, unitCost, restockRefunds, hasCogs, startDate, endDate, granularity]);
+  const belowCostCount = products.filter(p => p.belowCostUnits > 0).length;
+  const missingCogsCount = products.filter(p => p.missingCogs).length;
+
+  const visible = useMemo(() => sortRows(
+    products.filter(p => matchesSearch(query, p.sku, p.title) && (!flaggedOnly || p.missingCogs || p.belowCostUnits > 0)),
+    sort.key, sort.desc
+  ), [products, query, flaggedOnly, sort]);
+
+  const formatCell = (row: ProductStats, key: SortKey) => {
+    switch (key) {
+      case 'revenue': case 'grossProfit': return formatVal(row[key]);
+      case 'unitCogs': return row.missingCogs ? '—' : formatVal(row.unitCogs);
+      case 'margin': return `${row.margin.toFixed(1)}%`;
+      case 'units': return row.units.toLocaleString();
+      default: return row[key];
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Product Profitability</h2>
+          <p className="text-sm text-slate-500">{products.length} SKUs sold in the selected period</p>
+        </div>
+        <div className="flex items-center gap-3 text-xs font-semibold">
+          <span className={`flex items-center px-3 py-1.5 rounded-lg ${belowCostCount > 0 ? 'bg-rose-50 text-rose-700' : 'bg-slate-100 text-slate-400'}`}>
+            <AlertCircle className="w-3.5 h-3.5 mr-1.5" /> {belowCostCount} sold below cost
+          </span>
+          <span className={`flex items-center px-3 py-1.5 rounded-lg ${missingCogsCount > 0 ? 'bg-amber-50 text-amber-700' : 'bg-slate-100 text-slate-400'}`}>
+            <AlertTriangle className="w-3.5 h-3.5 mr-1.5" /> {missingCogsCount} missing COGS
+          </span>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-800 flex items-center"><Package className="w-4 h-4 mr-2 text-indigo-500" /> Leaderboard</h3>
+          <div className="flex items-center space-x-3">
+            <label className="flex items-center space-x-2 text-xs font-semibold text-slate-500">
+              <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} />
+              <span>Flagged only</span>
+            </label>
+            <SearchInput value={query} placeholder="Search SKU or title" onChange={setQuery} />
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 font-medium uppercase text-[10px] tracking-wider">
+              <tr>
+                <th className="px-4 py-3 w-8">#</th>
+                <SortableHeader columns={COLUMNS} sort={sort} onSort={(key) => setSort(nextSort(sort, key, ['sku']))} />
+                <th className="px-4 py-3">Revenue Trend</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visible.map((row, i) => (
+                <tr key={row.sku} className={`transition-colors ${row.belowCostUnits > 0 ? 'bg-rose-50/40 hover:bg-rose-50' : 'hover:bg-slate-50'}`}>
+                  <td className="px-4 py-3 text-xs font-bold text-slate-400">{i + 1}</td>
+                  {COLUMNS.map(col => (
+                    <td key={col.key} className={`px-4 py-3 ${col.key === 'grossProfit' && row.grossProfit < 0 ? 'font-semibold text-rose-600' : 'text-slate-700'}`}>
+                      {col.key === 'sku' ? (
+                        <>
+                          <span className="flex items-center text-[10px] font-black text-indigo-600">
+                            {row.sku}
+                            {row.belowCostUnits > 0 && <span title={`${row.belowCostUnits} units sold below cost`}><AlertCircle className="w-3 h-3 ml-1.5 text-rose-500" /></span>}
+                            {row.missingCogs && <span title="No COGS value in the ledger"><AlertTriangle className="w-3 h-3 ml-1.5 text-amber-500" /></span>}
+                          </span>
+                          <span className="block text-xs font-medium text-slate-500 truncate max-w-[220px]">{row.title}</span>
+                        </>
+                      ) : formatCell(row, col.key)}
+                    </td>
+                  ))}
+                  <td className="px-4 py-2"><Sparkline values={row.trend} /></td>
+                </tr>
+              ))}
+              {visible.length === 0 && (
+                <tr>
+                  <td colSpan={COLUMNS.length + 2} className="px-6 py-12 text-center text-slate-400 italic">No products match. Upload an Orders report or clear the filters.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
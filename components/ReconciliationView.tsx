@@ -0,0 +1,133 @@
+
+import React, { useMemo, useState } from 'react';
+import { Wallet, CheckCircle2, Clock, XCircle, AlertCircle } from 'lucide-react';
+import { ReconciliationSummary, ReconciliationStatus } from '../utils/reconciliation';
+
+const STATUS_STYLES: Record<ReconciliationStatus, string> = {
+  settled: 'bg-emerald-100 text-emerald-700',
+  pending: 'bg-amber-100 text-amber-700',
+  failed: 'bg-rose-100 text-rose-700',
+  missing: 'bg-slate-200 text-slate-600',
+};
+
+export default function ReconciliationView({ summary, formatVal }: {
+  summary: ReconciliationSummary; formatVal: (amount: number) => string;
+}) {
+  const [filter, setFilter] = useState<ReconciliationStatus | 'all'>('all');
+
+  const visibleRows = useMemo(() => {
+    const rows = filter === 'all' ? summary.rows : summary.rows.filter(r => r.status === filter);
+    return [...rows].sort((a, b) => b.outstanding - a.outstanding);
+  }, [summary, filter]);
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900">Payout Reconciliation</h2>
+        <p className="text-sm text-slate-500">Courier and gateway settlements matched against Shopify orders</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <SummaryTile label="Settled" count={summary.counts.settled} icon={<CheckCircle2 className="w-5 h-5 text-emerald-600" />} />
+        <SummaryTile label="Pending" count={summary.counts.pending} icon={<Clock className="w-5 h-5 text-amber-600" />} />
+        <SummaryTile label="Failed" count={summary.counts.failed} icon={<XCircle className="w-5 h-5 text-rose-600" />} />
+        <SummaryTile label="Missing" count={summary.counts.missing} icon={<AlertCircle className="w-5 h-5 text-slate-600" />} />
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm grid grid-cols-2 md:grid-cols-4 gap-6">
+        <Figure label="Expected" value={formatVal(summary.totalExpected)} />
+        <Figure label="Received" value={formatVal(summary.totalReceived)} />
+        <Figure label="Settlement Fees" value={formatVal(summary.totalFees)} />
+        <Figure label="Still Owed" value={formatVal(summary.totalOutstanding)} highlight />
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-800 flex items-center"><Wallet className="w-4 h-4 mr-2 text-indigo-500" /> Order Settlements</h3>
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {(['all', 'settled', 'pending', 'failed', 'missing'] as const).map(s => (
+              <button
+                key={s}
+                onClick={() => setFilter(s)}
+                className={`px-3 py-1 rounded-lg text-[10px] font-bold capitalize transition-all ${filter === s ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500'}`}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 font-medium uppercase text-[10px] tracking-wider sticky top-0">
+              <tr>
+                <th className="px-6 py-3">Order</th>
+                <th className="px-6 py-3">Date</th>
+                <th className="px-6 py-3">Order Total</th>
+                <th className="px-6 py-3">Received</th>
+                <th className="px-6 py-3">Fees</th>
+                <th className="px-6 py-3">Owed</th>
+                <th className="px-6 py-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visibleRows.map(row => (
+                <tr key={row.orderName} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-4 font-bold text-slate-900">{row.orderName}</td>
+                  <td className="px-6 py-4 text-slate-500">{row.date}</td>
+                  <td className="px-6 py-4 text-slate-700">{formatVal(row.orderTotal)}</td>
+                  <td className="px-6 py-4 text-slate-700">{formatVal(row.amountReceived)}</td>
+                  <td className="px-6 py-4 text-slate-500">{formatVal(row.fees)}</td>
+                  <td className="px-6 py-4 font-semibold text-slate-900">{formatVal(row.outstanding)}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${STATUS_STYLES[row.status]}`}>{row.status}</span>
+                  </td>
+                </tr>
+              ))}
+              {visibleRows.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-slate-400 italic">No orders in this state for the selected period.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {summary.unmatched.length > 0 && (
+        <div className="bg-amber-50 p-6 rounded-2xl border border-amber-200">
+          <h3 className="font-semibold text-amber-800 mb-2">Unmatched Settlement Lines ({summary.unmatched.length})</h3>
+          <p className="text-xs text-amber-700 mb-4">These payouts reference orders that are not in the selected period or were never uploaded.</p>
+          <div className="flex flex-wrap gap-2">
+            {summary.unmatched.slice(0, 50).map((s, i) => (
+              <span key={`${s.orderName}-${i}`} className="px-2 py-1 bg-white rounded-lg text-[10px] font-bold text-amber-800 border border-amber-200">
+                {s.orderName} · {formatVal(s.amountReceived)}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SummaryTile({ label, count, icon }: { label: string; count: number; icon: React.ReactNode }) {
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="p-2.5 rounded-xl border border-slate-100 bg-slate-50">{icon}</div>
+      </div>
+      <h3 className="text-slate-400 text-[10px] font-bold uppercase tracking-wider mb-1">{label}</h3>
+      <div className="text-2xl font-black text-slate-900">{count}</div>
+      <p className="text-xs text-slate-500 mt-1 font-medium">Orders</p>
+    </div>
+  );
+}
+
+function Figure({ label, value, highlight }: { label: string; value: string; highlight?: boolean }) {
+  return (
+    <div>
+      <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">{label}</p>
+      <p className={`text-xl font-black ${highlight ? 'text-rose-600' : 'text-slate-900'}`}>{value}</p>
+    </div>
+  );
+}
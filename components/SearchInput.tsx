@@ -0,0 +1,12 @@
+
+import React from 'react';
+import { Search } from 'lucide-react';
+
+export default function SearchInput({ value, placeholder, onChange }: { value: string; placeholder: string; onChange: (value: string) => void }) {
+  return (
+    <div className="flex items-center space-x-2 bg-slate-50 border border-slate-200 px-3 py-1.5 rounded-xl">
+      <Search className="w-4 h-4 text-slate-400" />
+      <input type="text" placeholder={placeholder} className="text-xs bg-transparent focus:outline-none" value={value} onChange={(e) => onChange(e.target.value)} />
+    </div>
+  );
+}
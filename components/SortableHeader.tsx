@@ -0,0 +1,25 @@
+
+import React from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import { SortState } from '../utils/sorting';
+
+// Header cells for a table sorted by one column at a time; renders only the <th> elements
+export default function SortableHeader<K extends string>({ columns, sort, onSort, cellClassName = 'px-4 py-3' }: {
+  columns: { key: K; label: string }[];
+  sort: SortState<K>;
+  onSort: (key: K) => void;
+  cellClassName?: string;
+}) {
+  return (
+    <>
+      {columns.map(col => (
+        <th key={col.key} className={`${cellClassName} cursor-pointer select-none whitespace-nowrap`} onClick={() => onSort(col.key)}>
+          <span className="inline-flex items-center">
+            {col.label}
+            {sort.key === col.key && (sort.desc ? <ArrowDown className="w-3 h-3 ml-1" /> : <ArrowUp className="w-3 h-3 ml-1" />)}
+          </span>
+        </th>
+      ))}
+    </>
+  );
+}
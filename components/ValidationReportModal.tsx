@@ -0,0 +1,116 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ShieldAlert, X, AlertCircle, AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ValidationReport } from '../utils/importValidation';
+
+const CONTEXT_ROWS = 3;
+// A single bad column in a large export can produce one issue per row, so the list is paged
+const ISSUES_PER_PAGE = 100;
+
+export default function ValidationReportModal({ fileName, rows, report, onCancel, onImportValid }: {
+  fileName: string;
+  rows: any[];
+  report: ValidationReport;
+  onCancel: () => void;
+  onImportValid: () => void;
+}) {
+  const [selectedRow, setSelectedRow] = useState<number>(report.issues[0]?.row ?? 0);
+  const [page, setPage] = useState(0);
+  const selectedRef = useRef<HTMLTableRowElement>(null);
+
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [selectedRow]);
+
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const from = Math.max(0, selectedRow - CONTEXT_ROWS);
+  const contextRows = rows.slice(from, selectedRow + CONTEXT_ROWS + 1);
+  const badCells = useMemo(() => new Set(report.issues.map(i => `${i.row}|${i.column}`)), [report]);
+  const errorCount = useMemo(() => report.issues.filter(i => i.severity === 'error').length, [report]);
+  const pageCount = Math.max(1, Math.ceil(report.issues.length / ISSUES_PER_PAGE));
+  const pageStart = page * ISSUES_PER_PAGE;
+  const pageIssues = report.issues.slice(pageStart, pageStart + ISSUES_PER_PAGE);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="font-bold text-slate-900 flex items-center"><ShieldAlert className="w-5 h-5 mr-2 text-amber-500" /> Import Validation</h3>
+            <p className="text-xs text-slate-500 mt-1">
+              {fileName} · {errorCount} errors, {report.issues.length - errorCount} warnings · {report.invalidRows.size} of {rows.length} rows will be skipped
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-700"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 lg:grid-cols-3 min-h-0">
+          <div className="border-r border-slate-100 flex flex-col min-h-0">
+            {pageCount > 1 && (
+              <div className="px-5 py-2 border-b border-slate-100 flex items-center justify-between text-[10px] font-bold text-slate-400 uppercase">
+                <button onClick={() => setPage(p => p - 1)} disabled={page === 0} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30"><ChevronLeft className="w-4 h-4" /></button>
+                <span>Issues {pageStart + 1}–{pageStart + pageIssues.length} of {report.issues.length}</span>
+                <button onClick={() => setPage(p => p + 1)} disabled={page >= pageCount - 1} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30"><ChevronRight className="w-4 h-4" /></button>
+              </div>
+            )}
+            <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+              {pageIssues.map((issue, i) => (
+                <button
+                  key={pageStart + i}
+                  onClick={() => setSelectedRow(issue.row)}
+                  className={`w-full text-left px-5 py-3 flex items-start space-x-2 transition-colors ${issue.row === selectedRow ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                >
+                  {issue.severity === 'error'
+                    ? <AlertCircle className="w-4 h-4 text-rose-500 shrink-0 mt-0.5" />
+                    : <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />}
+                  <div>
+                    {/* Row numbers match the spreadsheet: line 1 is the header */}
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">Row {issue.row + 2} · {issue.field}</p>
+                    <p className="text-xs text-slate-700">{issue.message}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 overflow-auto p-6">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-slate-50 text-slate-500 font-medium uppercase text-[10px] tracking-wider">
+                <tr>
+                  <th className="px-3 py-2">Row</th>
+                  {columns.map(c => <th key={c} className="px-3 py-2 whitespace-nowrap">{c}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {contextRows.map((row, offset) => {
+                  const index = from + offset;
+                  return (
+                    <tr key={index} ref={index === selectedRow ? selectedRef : undefined} className={index === selectedRow ? 'bg-indigo-50' : report.invalidRows.has(index) ? 'bg-rose-50/50' : ''}>
+                      <td className="px-3 py-2 font-bold text-slate-400">{index + 2}</td>
+                      {columns.map(c => (
+                        <td key={c} className={`px-3 py-2 whitespace-nowrap max-w-[160px] truncate ${badCells.has(`${index}|${c}`) ? 'text-rose-600 font-bold underline decoration-dotted' : 'text-slate-700'}`}>
+                          {row[c] || <span className="text-slate-300">—</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 flex items-center justify-end space-x-3">
+          <button onClick={onCancel} className="px-4 py-2 text-xs font-bold rounded-xl text-slate-500 hover:bg-slate-100">Cancel Import</button>
+          <button
+            onClick={onImportValid}
+            disabled={report.validRows.length === 0}
+            className="px-5 py-2 text-xs font-bold rounded-xl bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-40"
+          >
+            Import {report.validRows.length} valid rows
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
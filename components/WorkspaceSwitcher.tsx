@@ -0,0 +1,48 @@
+
+import React from 'react';
+import { FolderOpen, Plus, Copy, Pencil, Trash2 } from 'lucide-react';
+import { Workspace } from '../types';
+
+export default function WorkspaceSwitcher({ workspaces, activeId, disabled, onSwitch, onCreate, onDuplicate, onRename, onDelete }: {
+  workspaces: Workspace[];
+  activeId: string;
+  disabled?: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className="flex items-center space-x-1 bg-white border border-slate-200 p-1.5 rounded-xl shadow-sm">
+      <FolderOpen className="w-4 h-4 text-slate-400 ml-1" />
+      <select
+        className="text-xs font-semibold text-slate-700 bg-transparent focus:outline-none max-w-[140px]"
+        value={activeId}
+        disabled={disabled}
+        onChange={(e) => onSwitch(e.target.value)}
+      >
+        {workspaces.map(ws => <option key={ws.id} value={ws.id}>{ws.name}</option>)}
+      </select>
+      <IconButton title="New workspace" onClick={onCreate} disabled={disabled}><Plus className="w-3.5 h-3.5" /></IconButton>
+      <IconButton title="Duplicate workspace" onClick={onDuplicate} disabled={disabled}><Copy className="w-3.5 h-3.5" /></IconButton>
+      <IconButton title="Rename workspace" onClick={onRename} disabled={disabled}><Pencil className="w-3.5 h-3.5" /></IconButton>
+      <IconButton title="Delete workspace" onClick={onDelete} disabled={disabled || workspaces.length <= 1} danger><Trash2 className="w-3.5 h-3.5" /></IconButton>
+    </div>
+  );
+}
+
+function IconButton({ title, onClick, disabled, danger, children }: {
+  title: string; onClick: () => void; disabled?: boolean; danger?: boolean; children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={`p-1 rounded-lg text-slate-400 transition-colors disabled:opacity-30 ${danger ? 'hover:text-rose-500' : 'hover:text-indigo-600'}`}
+    >
+      {children}
+    </button>
+  );
+}
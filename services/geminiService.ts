@@ -1,33 +1,177 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Type, FunctionDeclaration } from "@google/genai";
+import { ChatMessage } from "../types";
+import { AuditInput, AuditResult, buildAuditContext, describeAudit, parseAuditResponse } from "../utils/audit";
+import { ChatContext, InsightProvider, ToolRunner } from "./insightProvider";
 
-export class GeminiService {
+const AUDIT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Short Markdown overview of the financial health for the period' },
+    insights: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: ['critical', 'warning', 'info', 'positive'] },
+          metric: { type: Type.STRING, description: 'The KPI this insight is about, e.g. "ROAS", "COGS share", "Return rate"' },
+          detail: { type: Type.STRING, description: 'What the data shows, citing the numbers; Markdown allowed' },
+          action: { type: Type.STRING, description: 'One concrete recommended action' }
+        },
+        required: ['title', 'severity', 'metric', 'detail', 'action']
+      }
+    }
+  },
+  required: ['summary', 'insights']
+};
+
+const DATE_RANGE = {
+  start_date: { type: Type.STRING, description: 'First day, YYYY-MM-DD. Defaults to the dashboard range.' },
+  end_date: { type: Type.STRING, description: 'Last day, YYYY-MM-DD. Defaults to the dashboard range.' }
+};
+
+const CHAT_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'get_stats',
+    description: 'Full P&L for a date range: gross and net sales, discounts, returns, orders, AOV, ad spend, COGS, fees, overheads, net profit, ROAS and margin. Net sales exclude shipping and taxes; shipping collected from customers is passed to couriers and is not a cost.',
+    parameters: { type: Type.OBJECT, properties: { ...DATE_RANGE } }
+  },
+  {
+    name: 'get_profit_trend',
+    description: 'Sales, costs, net profit and margin per day, week, month or quarter within a date range.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { ...DATE_RANGE, granularity: { type: Type.STRING, enum: ['day', 'week', 'month', 'quarter'] } }
+    }
+  },
+  {
+    name: 'query_orders',
+    description: 'Orders in a date range with their line items and computed profit. Search matches the order name or a SKU.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ...DATE_RANGE,
+        search: { type: Type.STRING },
+        status: { type: Type.STRING, enum: ['kept', 'partially_refunded', 'refunded', 'voided'] },
+        sort_by: { type: Type.STRING, enum: ['date', 'total', 'items', 'name', 'status'] },
+        ascending: { type: Type.BOOLEAN },
+        limit: { type: Type.INTEGER, description: 'At most 50' }
+      }
+    }
+  },
+  {
+    name: 'get_campaigns',
+    description: 'Meta ad campaigns in a date range with spend, impressions, clicks, CTR, CPC and CPM, highest spend first.',
+    parameters: { type: Type.OBJECT, properties: { ...DATE_RANGE, limit: { type: Type.INTEGER } } }
+  },
+  {
+    name: 'get_products',
+    description: 'Per-SKU units, revenue, unit COGS, gross profit and margin in a date range, with flags for missing COGS and units sold below cost.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ...DATE_RANGE,
+        sort_by: { type: Type.STRING, enum: ['grossProfit', 'revenue', 'units', 'margin'] },
+        ascending: { type: Type.BOOLEAN },
+        limit: { type: Type.INTEGER }
+      }
+    }
+  },
+  {
+    name: 'get_cogs',
+    description: 'The COGS ledger in USD: current unit cost, base cost and dated cost changes per SKU.',
+    parameters: { type: Type.OBJECT, properties: { sku: { type: Type.STRING, description: 'Filter by SKU or product name' } } }
+  }
+];
+
+// Stops a model that keeps calling functions from looping forever
+const MAX_TOOL_ROUNDS = 5;
+
+export class GeminiService implements InsightProvider {
+  readonly id = 'gemini';
+  readonly label = 'Gemini';
   private ai: GoogleGenAI;
 
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+  constructor(apiKey: string = process.env.API_KEY || '') {
+    this.ai = new GoogleGenAI({ apiKey });
   }
 
-  async analyzeData(dataSummary: string) {
+  async analyze(input: AuditInput): Promise<AuditResult | null> {
+    const context = JSON.stringify(buildAuditContext(input));
     try {
       const response = await this.ai.models.generateContent({
         model: 'gemini-3-flash-preview',
-        contents: `Analyze the following sales performance data for Shopify brand "Hydrict". 
-        Provide 3 key actionable insights and a brief summary of the financial health.
-        
-        Data Summary:
-        ${dataSummary}
-        
-        Format your response as a clean Markdown list.`,
+        contents: `Audit the performance of Shopify brand "Hydrict" for the period below.
+        The data covers headline KPIs, a cost breakdown with each cost's share of net sales,
+        the top campaigns by spend, the most and least profitable SKUs, and the profit trend.
+        Amounts are in the stated currency. Net sales exclude shipping and taxes, and the
+        shipping collected from customers is passed through to couriers, so it is not a cost.
+
+        Give a brief summary of the financial health and between 3 and 6 insights.
+        Each insight should name the metric it concerns, cite the numbers behind it and
+        recommend one concrete action. Use "positive" for things that are working well.
+
+        Data:
+        ${context}`,
         config: {
-          thinkingConfig: { thinkingBudget: 0 }
+          thinkingConfig: { thinkingBudget: 0 },
+          responseMimeType: 'application/json',
+          responseSchema: AUDIT_SCHEMA
         }
       });
 
-      return response.text;
+      return parseAuditResponse(response.text || '');
     } catch (error) {
       console.error("Gemini Analysis Error:", error);
-      return "Failed to generate AI insights. Please check your data or try again later.";
+      return null;
+    }
+  }
+
+  /**
+   * Answers a follow-up question with the earlier turns as context. The model can call
+   * the dashboard's query functions through `runTool` as often as it needs before answering.
+   */
+  async chat(
+    history: ChatMessage[],
+    question: string,
+    context: ChatContext,
+    runTool: ToolRunner
+  ): Promise<ChatMessage | null> {
+    try {
+      const chat = this.ai.chats.create({
+        model: 'gemini-3-flash-preview',
+        history: history.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+        config: {
+          thinkingConfig: { thinkingBudget: 0 },
+          tools: [{ functionDeclarations: CHAT_TOOLS }],
+          systemInstruction: `You are a financial analyst for Shopify brand "Hydrict". Today is ${context.today}.
+          The dashboard currently shows ${context.startDate} to ${context.endDate}; amounts are in ${context.currency} unless a function says otherwise.
+          Always call the functions to look up numbers instead of guessing, and cite them in your answer.
+          Answer concisely in Markdown.${context.audit ? `\n\nThe user is looking at this audit; questions about "the audit" or its insights refer to it:\n${describeAudit(context.audit)}` : ''}`
+        }
+      });
+
+      const toolCalls: string[] = [];
+      let response = await chat.sendMessage({ message: question });
+      for (let round = 0; round < MAX_TOOL_ROUNDS && response.functionCalls?.length; round++) {
+        const parts = response.functionCalls.map(call => {
+          const args = call.args || {};
+          const range = args.start_date || args.end_date ? `${args.start_date || '…'} → ${args.end_date || '…'}` : '';
+          toolCalls.push(`${call.name}(${range})`);
+          return { functionResponse: { id: call.id, name: call.name, response: { result: runTool(call.name || '', args) } } };
+        });
+        response = await chat.sendMessage({ message: parts });
+      }
+
+      // The model still wanted data after the last round, so it never wrote an answer
+      if (response.functionCalls?.length) {
+        return { role: 'model', text: `The question needed more than ${MAX_TOOL_ROUNDS} rounds of lookups, so no answer was produced. Try asking about a narrower date range or metric.`, toolCalls };
+      }
+      return { role: 'model', text: response.text || 'The model returned an empty answer. Please try again.', toolCalls };
+    } catch (error) {
+      console.error("Gemini Chat Error:", error);
+      return null;
     }
   }
 }
@@ -0,0 +1,32 @@
+
+import { AiAudit, ChatMessage, InsightProviderId } from "../types";
+import { AuditInput, AuditResult } from "../utils/audit";
+import { geminiService } from "./geminiService";
+import { localInsightProvider } from "./localInsightProvider";
+import { mockInsightProvider } from "./mockInsightProvider";
+
+export interface ChatContext {
+  currency: string;
+  startDate: string;
+  endDate: string;
+  today: string;
+  // The audit on screen, so follow-ups like "why is that critical?" have something to refer to
+  audit?: AiAudit;
+}
+
+export type ToolRunner = (name: string, args: Record<string, any>) => unknown;
+
+export interface InsightProvider {
+  readonly id: InsightProviderId;
+  readonly label: string;
+  // Resolves to null when no audit could be produced
+  analyze(input: AuditInput): Promise<AuditResult | null>;
+  // Only providers backed by a language model can answer free-form questions
+  chat?(history: ChatMessage[], question: string, context: ChatContext, runTool: ToolRunner): Promise<ChatMessage | null>;
+}
+
+export const INSIGHT_PROVIDERS: Record<InsightProviderId, InsightProvider> = {
+  gemini: geminiService,
+  local: localInsightProvider,
+  mock: mockInsightProvider,
+};
@@ -0,0 +1,16 @@
+
+import { InsightProvider } from "./insightProvider";
+import { AuditInput, AuditResult } from "../utils/audit";
+import { localInsights } from "../utils/insightRules";
+
+// Rule-based audit that works offline and gives the same answer for the same data
+export class LocalInsightProvider implements InsightProvider {
+  readonly id = 'local';
+  readonly label = 'Built-in rules (offline)';
+
+  async analyze(input: AuditInput): Promise<AuditResult | null> {
+    return localInsights(input);
+  }
+}
+
+export const localInsightProvider = new LocalInsightProvider();
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { ShopifyOrder } from '../types';
+import { ChatDataSource, runChatTool } from '../utils/chatTools';
+import { localInsights } from '../utils/insightRules';
+import { MockInsightProvider, mockInsightProvider } from './mockInsightProvider';
+
+const ORDERS: ShopifyOrder[] = [
+  { id: '1', name: '#1001', date: '2024-03-02', total: 120, subtotal: 100, tax: 0, shipping: 20, status: 'paid', lineItems: [{ sku: 'MUG', title: 'Mug', quantity: 2, price: 50 }] },
+  { id: '2', name: '#1002', date: '2024-03-05', total: 60, subtotal: 50, tax: 0, shipping: 10, status: 'paid', lineItems: [{ sku: 'MUG', title: 'Mug', quantity: 1, price: 50 }] },
+  { id: '3', name: '#1003', date: '2024-04-01', total: 60, subtotal: 50, tax: 0, shipping: 10, status: 'paid', lineItems: [{ sku: 'MUG', title: 'Mug', quantity: 1, price: 50 }] }
+];
+
+const source: ChatDataSource = {
+  periodInputFor: (startDate, endDate) => ({
+    startDate, endDate,
+    orders: ORDERS.filter(o => o.date >= startDate && o.date <= endDate),
+    sales: [], ads: [], settlements: [], expenses: [], feeRules: [],
+    unitCost: () => 20,
+    convertUsd: (amount) => amount,
+    restockRefunds: true
+  }),
+  cogs: [{ sku: 'MUG', productName: 'Mug', cogs: 20, history: [] }],
+  hasCogs: () => true,
+  startDate: '2024-03-01',
+  endDate: '2024-03-31',
+  today: '2024-04-15'
+};
+
+const context = { currency: 'USD', startDate: source.startDate, endDate: source.endDate, today: source.today };
+
+describe('MockInsightProvider', () => {
+  it('returns the canned audit, or the one it was built with', async () => {
+    expect((await mockInsightProvider.analyze({} as any))?.insights).toHaveLength(2);
+    expect(await new MockInsightProvider(null).analyze({} as any)).toBeNull();
+  });
+
+  it('answers through the chat tools for the dashboard range', async () => {
+    const calls: string[] = [];
+    const reply = await mockInsightProvider.chat([], 'How did March go?', context, (name, args) => {
+      calls.push(name);
+      return runChatTool(name, args, source);
+    });
+
+    expect(calls).toEqual(['get_stats']);
+    expect(reply?.role).toBe('model');
+    expect(reply?.toolCalls).toEqual(['get_stats(2024-03-01 → 2024-03-31)']);
+    // Two March orders: 150 of net sales, 60 of COGS and the 3% fee estimate; shipping is passed through
+    expect(reply?.text).toContain('"totalOrders":2');
+    expect(reply?.text).toContain('"totalSales":150');
+    expect(reply?.text).toContain('"netProfit":85.5');
+  });
+
+  it('sees the audit on screen', async () => {
+    const audit = {
+      id: 'a', createdAt: '2024-04-01T00:00:00Z', startDate: '2024-03-01', endDate: '2024-03-31', currency: 'USD' as const,
+      summary: 'Margins are thin.', insights: [], kpis: { totalSales: 0, netProfit: 0, totalAdSpend: 0, roas: 0, netMargin: 0 }
+    };
+    const reply = await mockInsightProvider.chat([], 'Why?', { ...context, audit }, (name, args) => runChatTool(name, args, source));
+    expect(reply?.text).toContain('Audit in context: 2024-03-01 → 2024-03-31, 0 insights.');
+  });
+});
+
+describe('runChatTool', () => {
+  it('reports unknown functions as data instead of throwing', () => {
+    expect(runChatTool('drop_tables', {}, source)).toEqual({ error: 'Unknown function "drop_tables"' });
+  });
+
+  it('falls back to the dashboard range for malformed dates', () => {
+    expect(runChatTool('get_stats', { start_date: 'last month' }, source)).toMatchObject({ startDate: '2024-03-01', totalOrders: 2 });
+  });
+
+  it('feeds the same numbers to the offline rules', () => {
+    const stats = runChatTool('get_stats', {}, source) as any;
+    const result = localInsights({
+      startDate: source.startDate, endDate: source.endDate, currency: 'USD', stats, feeLines: [],
+      campaigns: [], products: [], trend: [], granularity: 'day'
+    });
+    expect(result.insights.map(i => i.metric)).toEqual(['Net margin']);
+  });
+});
@@ -0,0 +1,39 @@
+
+import { ChatMessage } from "../types";
+import { ChatContext, InsightProvider, ToolRunner } from "./insightProvider";
+import { AuditInput, AuditResult } from "../utils/audit";
+
+const DEFAULT_RESULT: AuditResult = {
+  summary: 'Mock audit. No model was called.',
+  insights: [
+    { title: 'Mock critical insight', severity: 'critical', metric: 'ROAS', detail: 'Canned detail for testing.', action: 'Do nothing, this is a mock.' },
+    { title: 'Mock positive insight', severity: 'positive', metric: 'Net margin', detail: 'Canned detail for testing.', action: 'Do nothing, this is a mock.' }
+  ]
+};
+
+/**
+ * Canned responses for tests and UI work. The chat still calls `get_stats` once so
+ * the function-calling path is exercised without a network connection.
+ */
+export class MockInsightProvider implements InsightProvider {
+  readonly id = 'mock';
+  readonly label = 'Mock (testing)';
+
+  constructor(private result: AuditResult | null = DEFAULT_RESULT) {}
+
+  async analyze(_input: AuditInput): Promise<AuditResult | null> {
+    return this.result;
+  }
+
+  async chat(_history: ChatMessage[], question: string, context: ChatContext, runTool: ToolRunner): Promise<ChatMessage | null> {
+    const stats = runTool('get_stats', { start_date: context.startDate, end_date: context.endDate });
+    const audit = context.audit ? `\n\nAudit in context: ${context.audit.startDate} → ${context.audit.endDate}, ${context.audit.insights.length} insights.` : '';
+    return {
+      role: 'model',
+      text: `Mock answer to "${question}".${audit}\n\n\`get_stats\` returned:\n\n\`${JSON.stringify(stats)}\``,
+      toolCalls: [`get_stats(${context.startDate} → ${context.endDate})`]
+    };
+  }
+}
+
+export const mockInsightProvider = new MockInsightProvider();
@@ -0,0 +1,113 @@
+
+import { Workspace, WorkspaceData } from "../types";
+import { normalizeExpense } from "../utils/expenses";
+import { normalizeCogs } from "../utils/cogs";
+import { DEFAULT_TIMEZONE } from "../utils/dateUtils";
+
+const DB_NAME = 'hydrict-dashboard';
+const DB_VERSION = 1;
+const WORKSPACES = 'workspaces';
+const DATA = 'workspaceData';
+const META = 'meta';
+
+export const createEmptyWorkspaceData = (): WorkspaceData => ({
+  orders: [],
+  salesRecords: [],
+  ads: [],
+  settlements: [],
+  expenses: [],
+  cogs: [],
+  feeRules: [],
+  exchangeRates: [],
+  importProfiles: [],
+  attributionRules: [],
+  aiAudits: [],
+  alertRules: [],
+  settings: { currency: 'PKR', storeCurrency: 'PKR', adCurrency: 'USD', timezone: DEFAULT_TIMEZONE, insightProvider: 'gemini', restockRefunds: true }
+});
+
+const promisify = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export class StorageService {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open() {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(WORKSPACES)) db.createObjectStore(WORKSPACES, { keyPath: 'id' });
+          if (!db.objectStoreNames.contains(DATA)) db.createObjectStore(DATA);
+          if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async listWorkspaces(): Promise<Workspace[]> {
+    const all = await promisify((await this.store(WORKSPACES, 'readonly')).getAll() as IDBRequest<Workspace[]>);
+    return all.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async createWorkspace(name: string, data: WorkspaceData = createEmptyWorkspaceData()): Promise<Workspace> {
+    const now = new Date().toISOString();
+    const workspace: Workspace = { id: `ws-${Date.now()}`, name, createdAt: now, updatedAt: now };
+    await promisify((await this.store(WORKSPACES, 'readwrite')).put(workspace));
+    await promisify((await this.store(DATA, 'readwrite')).put(data, workspace.id));
+    return workspace;
+  }
+
+  async renameWorkspace(id: string, name: string) {
+    const store = await this.store(WORKSPACES, 'readwrite');
+    const workspace = await promisify(store.get(id) as IDBRequest<Workspace | undefined>);
+    if (!workspace) return;
+    await promisify(store.put({ ...workspace, name, updatedAt: new Date().toISOString() }));
+  }
+
+  async duplicateWorkspace(id: string, name: string): Promise<Workspace> {
+    const data = await this.loadWorkspaceData(id);
+    return this.createWorkspace(name, data);
+  }
+
+  async deleteWorkspace(id: string) {
+    await promisify((await this.store(WORKSPACES, 'readwrite')).delete(id));
+    await promisify((await this.store(DATA, 'readwrite')).delete(id));
+  }
+
+  async loadWorkspaceData(id: string): Promise<WorkspaceData> {
+    const data = await promisify((await this.store(DATA, 'readonly')).get(id) as IDBRequest<WorkspaceData | undefined>);
+    // Fill in collections and fields added after the workspace was first saved
+    const defaults = createEmptyWorkspaceData();
+    const merged = { ...defaults, ...data };
+    return { ...merged, settings: { ...defaults.settings, ...merged.settings }, expenses: merged.expenses.map(normalizeExpense), cogs: merged.cogs.map(normalizeCogs) };
+  }
+
+  async saveWorkspaceData(id: string, data: WorkspaceData) {
+    await promisify((await this.store(DATA, 'readwrite')).put(data, id));
+    const store = await this.store(WORKSPACES, 'readwrite');
+    const workspace = await promisify(store.get(id) as IDBRequest<Workspace | undefined>);
+    if (workspace) await promisify(store.put({ ...workspace, updatedAt: new Date().toISOString() }));
+  }
+
+  async getActiveWorkspaceId(): Promise<string | undefined> {
+    return promisify((await this.store(META, 'readonly')).get('activeWorkspaceId') as IDBRequest<string | undefined>);
+  }
+
+  async setActiveWorkspaceId(id: string) {
+    await promisify((await this.store(META, 'readwrite')).put(id, 'activeWorkspaceId'));
+  }
+}
+
+export const storageService = new StorageService();
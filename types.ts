@@ -9,6 +9,10 @@ export interface ShopifyOrder {
   shipping: number;
   lineItems: LineItem[];
   status: string;
+  paymentMethod?: string;
+  currency?: Currency;
+  discount?: number;
+  refunded?: number;
 }
 
 export interface ShopifySalesRecord {
@@ -20,6 +24,9 @@ export interface ShopifySalesRecord {
   shipping: number;
   taxes: number;
   totalSales: number;
+  // Set when the report is broken down by sales channel, which gives several rows per day
+  channel?: string;
+  currency?: Currency;
 }
 
 export interface LineItem {
@@ -35,6 +42,7 @@ export interface MetaAdReport {
   spend: number;
   impressions: number;
   clicks: number;
+  currency?: Currency;
 }
 
 export interface SettlementReport {
@@ -42,32 +50,191 @@ export interface SettlementReport {
   amountReceived: number;
   fees: number;
   status: 'settled' | 'pending' | 'failed';
+  date?: string;
+  currency?: Currency;
 }
 
+export type ExpenseRecurrence = 'one_off' | 'monthly' | 'yearly';
+
 export interface ManualExpense {
   id: string;
   category: string;
   amount: number;
   note: string;
+  recurrence: ExpenseRecurrence;
+  startDate: string;
+  endDate?: string;
+}
+
+export interface CostChange {
+  effectiveFrom: string;
+  cogs: number;
 }
 
 export interface ProductCOGS {
   sku: string;
   productName: string;
+  // Base unit cost in USD, in effect before the first dated change
   cogs: number;
+  history: CostChange[];
+  // False for SKUs detected from orders whose cost has not been entered yet; a deliberate zero is priced
+  priced?: boolean;
+}
+
+export type FeeRuleKind = 'percentage' | 'fixed_per_order' | 'payment_method' | 'monthly_flat';
+
+export interface FeeRule {
+  id: string;
+  name: string;
+  kind: FeeRuleKind;
+  percentage: number;
+  fixedAmount: number;
+  paymentMethod?: string;
+  effectiveFrom: string;
+  effectiveTo?: string;
+}
+
+export interface FeeLine {
+  ruleId: string;
+  label: string;
+  amount: number;
+  orderCount: number;
+}
+
+// Routes a campaign's spend to the products it advertises
+export interface AttributionRule {
+  id: string;
+  campaignMatch: 'contains' | 'exact';
+  campaignValue: string;
+  productMatch: 'skus' | 'pattern';
+  skus: string[];
+  productPattern: string;
 }
 
 export interface DashboardStats {
+  grossSales: number;
+  totalDiscounts: number;
+  totalReturns: number;
+  // Net sales: gross product sales less discounts and returns, without shipping or taxes.
+  // ROAS, AOV and net margin are all measured against it.
   totalSales: number;
   totalOrders: number;
   totalAdSpend: number;
   totalCogs: number;
+  // Shipping charged to customers. It is passed on to the courier, so it is neither revenue nor a cost
   totalShipping: number;
   totalFees: number;
+  totalOverheads: number;
   netProfit: number;
   roas: number;
   netMargin: number;
+  aov: number;
+  returnRate: number;
+  refundedOrders: number;
+}
+
+export type ReportType = 'shopify_orders' | 'shopify_sales' | 'meta_ads' | 'settlement' | 'cogs' | 'expenses' | 'exchange_rates';
+export type Currency = 'PKR' | 'USD' | 'EUR' | 'GBP' | 'AED';
+
+// Units of `currency` that one US dollar buys on `date`
+export interface ExchangeRate {
+  date: string;
+  currency: Currency;
+  perUsd: number;
+}
+
+export type InsightProviderId = 'gemini' | 'local' | 'mock';
+
+export interface WorkspaceSettings {
+  currency: Currency;
+  storeCurrency: Currency;
+  adCurrency: Currency;
+  // IANA zone whose calendar days the dashboard reports in, e.g. "Asia/Karachi"
+  timezone: string;
+  insightProvider: InsightProviderId;
+  // Whether fully refunded goods go back into sellable stock, so their COGS is not a loss
+  restockRefunds: boolean;
 }
 
-export type ReportType = 'shopify_orders' | 'shopify_sales' | 'meta_ads' | 'settlement' | 'cogs' | 'expenses';
-export type Currency = 'PKR' | 'USD';
+export type InsightSeverity = 'critical' | 'warning' | 'info' | 'positive';
+
+export interface AuditInsight {
+  title: string;
+  severity: InsightSeverity;
+  // The KPI the insight is about, e.g. "ROAS" or "COGS share"
+  metric: string;
+  detail: string;
+  action: string;
+}
+
+// A saved AI audit together with the headline numbers it was run on
+export interface AiAudit {
+  id: string;
+  createdAt: string;
+  startDate: string;
+  endDate: string;
+  currency: Currency;
+  // Markdown
+  summary: string;
+  insights: AuditInsight[];
+  // Missing on audits saved before providers were selectable, which all came from Gemini
+  provider?: InsightProviderId;
+  kpis: { totalSales: number; netProfit: number; totalAdSpend: number; roas: number; netMargin: number };
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  // Functions the model called to answer, e.g. "get_stats(2024-03-01 → 2024-03-31)"
+  toolCalls?: string[];
+}
+
+export type AlertMetric = 'sales' | 'adSpend' | 'cogs' | 'netProfit' | 'roas' | 'margin';
+
+// e.g. "ROAS below 2 for 3 days" or "ad spend above $500 a day"
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: AlertMetric;
+  // Daily rules check each day of the range; period rules check the totals for the whole range
+  scope: 'daily' | 'period';
+  comparator: 'below' | 'above';
+  // Money thresholds are entered in USD, like the other manual amounts
+  threshold: number;
+  // Consecutive days the condition has to hold; daily rules only
+  days: number;
+  enabled: boolean;
+}
+
+export interface WorkspaceData {
+  orders: ShopifyOrder[];
+  salesRecords: ShopifySalesRecord[];
+  ads: MetaAdReport[];
+  settlements: SettlementReport[];
+  expenses: ManualExpense[];
+  cogs: ProductCOGS[];
+  feeRules: FeeRule[];
+  exchangeRates: ExchangeRate[];
+  importProfiles: ImportProfile[];
+  attributionRules: AttributionRule[];
+  aiAudits: AiAudit[];
+  alertRules: AlertRule[];
+  settings: WorkspaceSettings;
+}
+
+// Import field key -> CSV column header
+export type ColumnMapping = Record<string, string>;
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  type: ReportType;
+  mapping: ColumnMapping;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
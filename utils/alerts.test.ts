@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { AlertRule, DashboardStats } from '../types';
+import { ProfitTrendPoint } from './stats';
+import { addDays } from './dateUtils';
+import { detectAnomalies, evaluateAlertRules } from './alerts';
+
+const point = (date: string, overrides: Partial<ProfitTrendPoint> = {}): ProfitTrendPoint => ({
+  date, sales: 100, adSpend: 50, cogs: 30, fees: 3, overheads: 0, netProfit: 17, margin: 17, ...overrides
+});
+
+// Consecutive days from 2024-03-01, one per entry
+const series = (overrides: Partial<ProfitTrendPoint>[]) => overrides.map((o, i) => point(addDays('2024-03-01', i), o));
+
+const rule = (overrides: Partial<AlertRule>): AlertRule => ({
+  id: 'r', name: '', metric: 'roas', scope: 'daily', comparator: 'below', threshold: 2, days: 2, enabled: true, ...overrides
+});
+
+const stats = { totalSales: 1000, totalAdSpend: 500, roas: 2 } as DashboardStats;
+const options = { startDate: '2024-03-01', endDate: '2024-03-31', convertUsd: (amount: number) => amount, formatMoney: (amount: number) => `$${amount}` };
+
+describe('evaluateAlertRules', () => {
+  it('raises one alert per run of consecutive breaching days long enough to count', () => {
+    // ROAS 1, 1, 2, 1, 1, 1, 2, 1: runs of 2, 3 and a single day
+    const low = { sales: 50 };
+    const daily = series([low, low, {}, low, low, low, {}, low]);
+    const alerts = evaluateAlertRules([rule({})], daily, stats, options);
+    expect(alerts.map(a => [a.startDate, a.endDate])).toEqual([['2024-03-01', '2024-03-02'], ['2024-03-04', '2024-03-06']]);
+    expect(alerts[1].message).toContain('3 days in a row from 2024-03-04 to 2024-03-06');
+  });
+
+  it('puts the marker on the day the run first satisfies the rule', () => {
+    const daily = series([{ sales: 50 }, { sales: 50 }, { sales: 50 }]);
+    expect(evaluateAlertRules([rule({ days: 2 })], daily, stats, options)[0].markerDate).toBe('2024-03-02');
+  });
+
+  it('treats days without ad spend as not breaching a ROAS rule', () => {
+    const daily = series([{ sales: 50 }, { sales: 0, adSpend: 0 }, { sales: 50 }]);
+    expect(evaluateAlertRules([rule({ days: 2 })], daily, stats, options)).toEqual([]);
+  });
+
+  it('only checks days inside the range and skips disabled rules', () => {
+    const daily = series([{ sales: 50 }, { sales: 50 }, { sales: 50 }]);
+    expect(evaluateAlertRules([rule({})], daily, stats, { ...options, startDate: '2024-03-03' })).toEqual([]);
+    expect(evaluateAlertRules([rule({ enabled: false })], daily, stats, options)).toEqual([]);
+  });
+
+  it('checks period rules against the totals and has no marker for them', () => {
+    const alerts = evaluateAlertRules([rule({ scope: 'period', threshold: 3 })], [], stats, options);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ startDate: '2024-03-01', endDate: '2024-03-31' });
+    expect(alerts[0].markerDate).toBeUndefined();
+  });
+});
+
+describe('detectAnomalies', () => {
+  // Sales alternate 95 and 105 so the baseline has a small, non-zero spread
+  const baseline = (days: number) => Array.from({ length: days }, (_, i) => ({ sales: i % 2 ? 105 : 95 }));
+  const startOf = (days: number) => addDays('2024-03-01', days);
+  const salesAlerts = (daily: ProfitTrendPoint[], start: string) => detectAnomalies(daily, start, String).filter(a => a.metric === 'sales');
+
+  it('needs at least a week of baseline', () => {
+    expect(salesAlerts(series([...baseline(6), { sales: 300 }]), startOf(6))).toEqual([]);
+    expect(salesAlerts(series([...baseline(7), { sales: 300 }]), startOf(7))).toHaveLength(1);
+  });
+
+  it('flags days several standard deviations from the mean, in either direction', () => {
+    const [spike] = salesAlerts(series([...baseline(14), { sales: 300 }]), startOf(14));
+    expect(spike).toMatchObject({ severity: 'positive', markerDate: startOf(14), title: `Net sales spike on ${startOf(14)}` });
+    const [drop] = salesAlerts(series([...baseline(14), { sales: 20 }]), startOf(14));
+    expect(drop).toMatchObject({ severity: 'warning', title: `Net sales drop on ${startOf(14)}` });
+  });
+
+  it('ignores statistically unusual days that move less than 30%', () => {
+    // A perfectly flat baseline makes any change an outlier, so only the size check can stop it
+    const flat = Array.from({ length: 14 }, () => ({ sales: 100 }));
+    expect(salesAlerts(series([...flat, { sales: 125 }]), startOf(14))).toEqual([]);
+    expect(salesAlerts(series([...flat, { sales: 135 }]), startOf(14))).toHaveLength(1);
+  });
+
+  it('does not flag days inside a noisy baseline', () => {
+    const noisy = Array.from({ length: 14 }, (_, i) => ({ sales: i % 2 ? 200 : 20 }));
+    expect(salesAlerts(series([...noisy, { sales: 180 }]), startOf(14))).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+
+import { AlertMetric, AlertRule, DashboardStats, InsightSeverity } from '../types';
+import { ProfitTrendPoint } from './stats';
+import { SEVERITY_ORDER } from './audit';
+
+export const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  sales: 'Net sales',
+  adSpend: 'Ad spend',
+  cogs: 'COGS',
+  netProfit: 'Net profit',
+  roas: 'ROAS',
+  margin: 'Net margin',
+};
+
+export const ALERT_METRIC_KIND: Record<AlertMetric, 'money' | 'ratio' | 'percent'> = {
+  sales: 'money',
+  adSpend: 'money',
+  cogs: 'money',
+  netProfit: 'money',
+  roas: 'ratio',
+  margin: 'percent',
+};
+
+// Days of history the anomaly baseline looks back over, and the minimum it needs
+export const ANOMALY_WINDOW = 14;
+const MIN_BASELINE_DAYS = 7;
+const ANOMALY_Z_SCORE = 3;
+// Ignore statistically unusual days that are still within 30% of the baseline
+const ANOMALY_MIN_CHANGE = 0.3;
+const ANOMALY_METRICS: AlertMetric[] = ['sales', 'adSpend'];
+
+export interface Alert {
+  id: string;
+  source: 'rule' | 'anomaly';
+  severity: InsightSeverity;
+  metric: AlertMetric;
+  title: string;
+  message: string;
+  // The days the alert covers; a period rule covers the whole selected range
+  startDate: string;
+  endDate: string;
+  // Day the chart marker goes on; period alerts have none
+  markerDate?: string;
+}
+
+// ROAS and margin are undefined on days without spend or sales, so those days never trigger
+const dailyValue = (point: ProfitTrendPoint, metric: AlertMetric): number | null => {
+  if (metric === 'roas') return point.adSpend > 0 ? point.sales / point.adSpend : null;
+  if (metric === 'margin') return point.sales > 0 ? point.margin : null;
+  return point[metric];
+};
+
+const periodValue = (stats: DashboardStats, metric: AlertMetric): number | null => {
+  switch (metric) {
+    case 'sales': return stats.totalSales;
+    case 'adSpend': return stats.totalAdSpend;
+    case 'cogs': return stats.totalCogs;
+    case 'netProfit': return stats.netProfit;
+    case 'roas': return stats.totalAdSpend > 0 ? stats.roas : null;
+    case 'margin': return stats.totalSales > 0 ? stats.netMargin : null;
+  }
+};
+
+export const formatAlertValue = (metric: AlertMetric, value: number, formatMoney: (amount: number) => string) => {
+  const kind = ALERT_METRIC_KIND[metric];
+  if (kind === 'ratio') return `${value.toFixed(2)}x`;
+  if (kind === 'percent') return `${value.toFixed(1)}%`;
+  return formatMoney(value);
+};
+
+export const describeRule = (rule: AlertRule) => {
+  const threshold = ALERT_METRIC_KIND[rule.metric] === 'money' ? `$${rule.threshold}`
+    : ALERT_METRIC_KIND[rule.metric] === 'percent' ? `${rule.threshold}%` : `${rule.threshold}x`;
+  const scope = rule.scope === 'period'
+    ? 'for the period'
+    : rule.days > 1 ? `for ${rule.days} days in a row` : 'on any day';
+  return `${ALERT_METRIC_LABELS[rule.metric]} ${rule.comparator} ${threshold} ${scope}`;
+};
+
+/**
+ * Checks each enabled rule against the daily series (or the period totals) inside
+ * [startDate, endDate]. A daily rule raises one alert per run of consecutive breaching days.
+ */
+export const evaluateAlertRules = (
+  rules: AlertRule[],
+  daily: ProfitTrendPoint[],
+  stats: DashboardStats,
+  options: { startDate: string; endDate: string; convertUsd: (amount: number, date: string) => number; formatMoney: (amount: number) => string }
+): Alert[] => {
+  const { startDate, endDate, convertUsd, formatMoney } = options;
+  const alerts: Alert[] = [];
+  const thresholdOn = (rule: AlertRule, date: string) =>
+    ALERT_METRIC_KIND[rule.metric] === 'money' ? convertUsd(rule.threshold, date) : rule.threshold;
+  const breaches = (rule: AlertRule, value: number, threshold: number) =>
+    rule.comparator === 'below' ? value < threshold : value > threshold;
+  const title = (rule: AlertRule) => rule.name || describeRule(rule);
+
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    if (rule.scope === 'period') {
+      const value = periodValue(stats, rule.metric);
+      const threshold = thresholdOn(rule, endDate);
+      if (value !== null && breaches(rule, value, threshold)) {
+        alerts.push({
+          id: `rule-${rule.id}-${startDate}`, source: 'rule', severity: 'warning', metric: rule.metric,
+          title: title(rule),
+          message: `${ALERT_METRIC_LABELS[rule.metric]} is ${formatAlertValue(rule.metric, value, formatMoney)} for the period, ${rule.comparator} ${formatAlertValue(rule.metric, threshold, formatMoney)}.`,
+          startDate, endDate
+        });
+      }
+      return;
+    }
+
+    const minDays = Math.max(1, Math.floor(rule.days));
+    let run: ProfitTrendPoint[] = [];
+    const closeRun = () => {
+      if (run.length >= minDays) {
+        const first = run[0].date;
+        const last = run[run.length - 1].date;
+        const lastValue = dailyValue(run[run.length - 1], rule.metric) as number;
+        alerts.push({
+          id: `rule-${rule.id}-${first}`, source: 'rule', severity: 'warning', metric: rule.metric,
+          title: title(rule),
+          message: `${ALERT_METRIC_LABELS[rule.metric]} was ${rule.comparator} ${formatAlertValue(rule.metric, thresholdOn(rule, last), formatMoney)} on ${run.length} day${run.length > 1 ? 's' : ''} in a row${first !== last ? ` from ${first} to ${last}` : ` on ${last}`}, ending at ${formatAlertValue(rule.metric, lastValue, formatMoney)}.`,
+          startDate: first, endDate: last, markerDate: run[minDays - 1].date
+        });
+      }
+      run = [];
+    };
+    daily.filter(p => p.date >= startDate && p.date <= endDate).forEach(point => {
+      const value = dailyValue(point, rule.metric);
+      if (value !== null && breaches(rule, value, thresholdOn(rule, point.date))) run.push(point);
+      else closeRun();
+    });
+    closeRun();
+  });
+
+  return alerts;
+};
+
+/**
+ * Flags days whose sales or ad spend sit far outside the trailing baseline. `daily` should start
+ * `ANOMALY_WINDOW` days before `startDate` so the first days of the range have a baseline too.
+ */
+export const detectAnomalies = (daily: ProfitTrendPoint[], startDate: string, formatMoney: (amount: number) => string): Alert[] => {
+  const alerts: Alert[] = [];
+  ANOMALY_METRICS.forEach(metric => {
+    daily.forEach((point, i) => {
+      if (point.date < startDate) return;
+      const baseline = daily.slice(Math.max(0, i - ANOMALY_WINDOW), i).map(p => dailyValue(p, metric) as number);
+      if (baseline.length < MIN_BASELINE_DAYS) return;
+      const mean = baseline.reduce((acc, v) => acc + v, 0) / baseline.length;
+      if (mean <= 0) return;
+      const std = Math.sqrt(baseline.reduce((acc, v) => acc + (v - mean) ** 2, 0) / baseline.length);
+      const value = dailyValue(point, metric) as number;
+      const change = (value - mean) / mean;
+      if (Math.abs(value - mean) < ANOMALY_Z_SCORE * std || Math.abs(change) < ANOMALY_MIN_CHANGE) return;
+
+      const up = change > 0;
+      // A sales drop or a spend jump needs attention; the opposite is worth knowing about
+      const severity: InsightSeverity = metric === 'sales' ? (up ? 'positive' : 'warning') : (up ? 'warning' : 'info');
+      alerts.push({
+        id: `anomaly-${metric}-${point.date}`, source: 'anomaly', severity, metric,
+        title: `${ALERT_METRIC_LABELS[metric]} ${up ? 'spike' : 'drop'} on ${point.date}`,
+        message: `${ALERT_METRIC_LABELS[metric]} was ${formatMoney(value)}, ${Math.abs(change * 100).toFixed(0)}% ${up ? 'above' : 'below'} the ${baseline.length}-day average of ${formatMoney(mean)}.`,
+        startDate: point.date, endDate: point.date, markerDate: point.date
+      });
+    });
+  });
+  return alerts;
+};
+
+// Newest first, most severe first within a day
+export const sortAlerts = (alerts: Alert[]) => [...alerts].sort((a, b) =>
+  b.endDate.localeCompare(a.endDate) || SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
@@ -0,0 +1,99 @@
+
+import { ShopifyOrder, MetaAdReport, AttributionRule } from '../types';
+import { rollupSkus } from './products';
+import { aggregateCampaigns } from './campaigns';
+
+export interface SkuProfitRow {
+  sku: string;
+  title: string;
+  units: number;
+  revenue: number;
+  cogs: number;
+  adSpend: number;
+  contribution: number;
+  contributionMargin: number;
+  roas: number;
+}
+
+export interface AttributionResult {
+  rows: SkuProfitRow[];
+  attributedSpend: number;
+  blendedSpend: number;
+  unallocatedSpend: number;
+  unmatchedCampaigns: string[];
+}
+
+// Unit cost lookup in display currency for a SKU on a given order date
+export type UnitCostLookup = (sku: string, date: string) => number;
+
+// "*" acts as a wildcard; without one the pattern matches anywhere in the text
+const patternToRegex = (pattern: string) => {
+  const escaped = pattern.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(pattern.includes('*') ? `^${escaped}$` : escaped, 'i');
+};
+
+export const campaignMatches = (rule: AttributionRule, campaignName: string) => {
+  const value = rule.campaignValue.trim();
+  if (!value) return false;
+  return rule.campaignMatch === 'exact'
+    ? campaignName.trim().toLowerCase() === value.toLowerCase()
+    : patternToRegex(value).test(campaignName);
+};
+
+export const productMatches = (rule: AttributionRule, sku: string, title: string) => {
+  if (rule.productMatch === 'skus') return rule.skus.includes(sku);
+  if (!rule.productPattern.trim()) return false;
+  const regex = patternToRegex(rule.productPattern);
+  return regex.test(sku) || regex.test(title);
+};
+
+/**
+ * Allocates ad spend to SKUs in proportion to their line item revenue.
+ * Campaigns covered by a rule only fund the products that rule names; campaigns
+ * without a rule are blended across every SKU sold in the period.
+ */
+export const computeSkuAttribution = (
+  orders: ShopifyOrder[],
+  ads: MetaAdReport[],
+  rules: AttributionRule[],
+  unitCost: UnitCostLookup,
+  restockRefunds: boolean
+): AttributionResult => {
+  const rows: SkuProfitRow[] = rollupSkus(orders, unitCost, restockRefunds).map(({ sku, title, units, revenue, cogs }) => ({
+    sku, title, units, revenue, cogs, adSpend: 0, contribution: 0, contributionMargin: 0, roas: 0
+  }));
+  const totalRevenue = rows.reduce((acc, curr) => acc + curr.revenue, 0);
+
+  const spread = (amount: number, targets: SkuProfitRow[]) => {
+    const base = targets.reduce((acc, curr) => acc + curr.revenue, 0);
+    if (base <= 0) return false;
+    targets.forEach(row => { row.adSpend += amount * row.revenue / base; });
+    return true;
+  };
+
+  let attributedSpend = 0;
+  let blendedSpend = 0;
+  let unallocatedSpend = 0;
+  const unmatched = new Set<string>();
+
+  // Campaign totals first so each rule is resolved once per campaign, not once per ad row
+  aggregateCampaigns(ads).forEach(({ campaignName, spend }) => {
+    const rule = rules.find(r => campaignMatches(r, campaignName));
+    if (rule) {
+      if (spread(spend, rows.filter(row => productMatches(rule, row.sku, row.title)))) attributedSpend += spend;
+      else unallocatedSpend += spend;
+    } else {
+      unmatched.add(campaignName);
+      if (totalRevenue > 0 && spread(spend, rows)) blendedSpend += spend;
+      else unallocatedSpend += spend;
+    }
+  });
+
+  rows.forEach(row => {
+    row.contribution = row.revenue - row.cogs - row.adSpend;
+    row.contributionMargin = row.revenue > 0 ? (row.contribution / row.revenue) * 100 : 0;
+    row.roas = row.adSpend > 0 ? row.revenue / row.adSpend : 0;
+  });
+
+  return { rows, attributedSpend, blendedSpend, unallocatedSpend, unmatchedCampaigns: Array.from(unmatched) };
+};
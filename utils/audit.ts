@@ -0,0 +1,123 @@
+
+import { AiAudit, AuditInsight, Currency, DashboardStats, FeeLine, InsightProviderId, InsightSeverity } from '../types';
+import { CampaignStats } from './campaigns';
+import { ProductStats } from './products';
+import { ProfitTrendPoint } from './stats';
+import { Granularity } from './dateRanges';
+import { daysBetween } from './dateUtils';
+
+export const SEVERITY_LABELS: Record<InsightSeverity, string> = {
+  critical: 'Critical',
+  warning: 'Warning',
+  info: 'Info',
+  positive: 'Positive',
+};
+
+export const SEVERITY_ORDER: InsightSeverity[] = ['critical', 'warning', 'info', 'positive'];
+
+export const bySeverity = (a: AuditInsight, b: AuditInsight) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity);
+
+export const MAX_SAVED_AUDITS = 20;
+
+export const INSIGHT_PROVIDER_IDS: InsightProviderId[] = ['gemini', 'local', 'mock'];
+
+export const isInsightProviderId = (value: any): value is InsightProviderId => INSIGHT_PROVIDER_IDS.includes(value);
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Daily points stop being useful to the model past a quarter, so longer ranges are sent weekly
+export const auditGranularity = (startDate: string, endDate: string): Granularity =>
+  daysBetween(startDate, endDate) > 92 ? 'week' : 'day';
+
+// Everything an insight provider gets to work with for one audit
+export interface AuditInput {
+  startDate: string;
+  endDate: string;
+  currency: Currency;
+  stats: DashboardStats;
+  feeLines: FeeLine[];
+  campaigns: CampaignStats[];
+  products: ProductStats[];
+  trend: ProfitTrendPoint[];
+  granularity: Granularity;
+}
+
+export type AuditResult = Pick<AiAudit, 'summary' | 'insights'>;
+
+/**
+ * Aggregates sent to the model. Amounts are rounded and lists are capped so the
+ * prompt stays small even for large stores.
+ */
+export const buildAuditContext = (input: AuditInput) => {
+  const { stats } = input;
+  const share = (amount: number) => stats.totalSales > 0 ? round((amount / stats.totalSales) * 100) : 0;
+  const byProfit = [...input.products].sort((a, b) => b.grossProfit - a.grossProfit);
+  const productRow = (p: ProductStats) => ({
+    sku: p.sku, title: p.title, units: p.units, revenue: round(p.revenue), unitCogs: round(p.unitCogs),
+    grossProfit: round(p.grossProfit), margin: round(p.margin), missingCogs: p.missingCogs, belowCostUnits: p.belowCostUnits
+  });
+
+  return {
+    period: { start: input.startDate, end: input.endDate, currency: input.currency },
+    kpis: {
+      grossSales: round(stats.grossSales), netSales: round(stats.totalSales), orders: stats.totalOrders,
+      aov: round(stats.aov), netProfit: round(stats.netProfit), netMargin: round(stats.netMargin),
+      roas: round(stats.roas), returnRate: round(stats.returnRate), refundedOrders: stats.refundedOrders,
+      // Passed through to couriers; not part of net sales or costs
+      shippingCollected: round(stats.totalShipping)
+    },
+    costs: {
+      adSpend: { amount: round(stats.totalAdSpend), pctOfSales: share(stats.totalAdSpend) },
+      cogs: { amount: round(stats.totalCogs), pctOfSales: share(stats.totalCogs) },
+      fees: { amount: round(stats.totalFees), pctOfSales: share(stats.totalFees), lines: input.feeLines.map(l => ({ label: l.label, amount: round(l.amount) })) },
+      overheads: { amount: round(stats.totalOverheads), pctOfSales: share(stats.totalOverheads) },
+      discounts: round(stats.totalDiscounts),
+      returns: round(stats.totalReturns)
+    },
+    campaigns: [...input.campaigns].sort((a, b) => b.spend - a.spend).slice(0, 10).map(c => ({
+      name: c.campaignName, spend: round(c.spend), impressions: c.impressions, clicks: c.clicks,
+      ctr: round(c.ctr), cpc: round(c.cpc), cpm: round(c.cpm), activeDays: c.activeDays
+    })),
+    topProducts: byProfit.slice(0, 10).map(productRow),
+    // Worst performers that are not already in the top list
+    bottomProducts: byProfit.slice(Math.max(10, byProfit.length - 5)).reverse().map(productRow),
+    trend: {
+      granularity: input.granularity,
+      points: input.trend.map(t => ({
+        date: t.date, sales: round(t.sales), adSpend: round(t.adSpend), cogs: round(t.cogs),
+        fees: round(t.fees), netProfit: round(t.netProfit), margin: round(t.margin)
+      }))
+    }
+  };
+};
+
+const isSeverity = (value: any): value is InsightSeverity => SEVERITY_ORDER.includes(value);
+
+// Drops malformed insights rather than failing the whole audit; most severe first
+export const parseAuditResponse = (text: string): AuditResult => {
+  const raw = JSON.parse(text);
+  const insights: AuditInsight[] = (Array.isArray(raw?.insights) ? raw.insights : [])
+    .filter((i: any) => i && typeof i.title === 'string' && typeof i.action === 'string')
+    .map((i: any) => ({
+      title: i.title,
+      severity: isSeverity(i.severity) ? i.severity : 'info',
+      metric: typeof i.metric === 'string' ? i.metric : '',
+      detail: typeof i.detail === 'string' ? i.detail : '',
+      action: i.action
+    }))
+    .sort(bySeverity);
+  return { summary: typeof raw?.summary === 'string' ? raw.summary : '', insights };
+};
+
+// Plain-text recap of an audit for a chat model that did not write it
+export const describeAudit = (audit: AiAudit) => [
+  `Audit of ${audit.startDate} to ${audit.endDate} (${audit.currency}):`,
+  audit.summary,
+  ...audit.insights.map(i => `- [${SEVERITY_LABELS[i.severity]}] ${i.title}${i.metric ? ` (${i.metric})` : ''}: ${i.detail} Action: ${i.action}`)
+].join('\n');
+
+// Metrics flagged now that the earlier audit did not mention
+export const newInsightMetrics = (current: AiAudit, previous: AiAudit) => {
+  const before = new Set(previous.insights.map(i => i.metric.trim().toLowerCase()));
+  return new Set(current.insights.map(i => i.metric.trim().toLowerCase()).filter(m => m && !before.has(m)));
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { BACKUP_VERSION, parseBackup } from './backup';
+import { computePeriodStats } from './stats';
+
+const bundle = (data: Record<string, unknown>, version: unknown = BACKUP_VERSION) =>
+  JSON.stringify({ app: 'hydrict-dashboard', version, exportedAt: '', workspaceName: 'Shop', data });
+
+const order = (lineItems: unknown[]) => ({ id: '1', name: '#1001', date: '2024-03-01', total: 50, subtotal: 50, tax: 0, shipping: 0, status: 'paid', lineItems });
+
+describe('parseBackup', () => {
+  it('drops orders whose line items are malformed', () => {
+    const result = parseBackup(bundle({
+      orders: [order([{ sku: 'MUG', title: 'Mug', quantity: 1, price: 50 }]), order([{ sku: 7, quantity: 'two' }]), order([null])]
+    }));
+    expect(result.data.orders).toHaveLength(1);
+    expect(result.issues).toEqual([
+      { collection: 'orders', index: 1, message: 'lineItems has invalid items' },
+      { collection: 'orders', index: 2, message: 'lineItems has invalid items' }
+    ]);
+  });
+
+  it('drops attribution rules without text patterns', () => {
+    const rule = { id: 'r', campaignMatch: 'contains', campaignValue: 'Hoodie', productMatch: 'pattern', skus: [], productPattern: 'HOOD-*' };
+    const result = parseBackup(bundle({
+      attributionRules: [rule, { ...rule, id: 'a', campaignValue: null }, { ...rule, id: 'b', productPattern: 3 }, { ...rule, id: 'c', skus: [1] }]
+    }));
+    expect(result.data.attributionRules.map(r => r.id)).toEqual(['r']);
+    expect(result.issues.map(i => i.message)).toEqual(['campaign value is not text', 'product pattern is not text', 'skus is not a list of text']);
+  });
+
+  it('drops audits with insights that have no metric', () => {
+    const insight = { title: 'Low ROAS', severity: 'critical', metric: 'ROAS', detail: '', action: 'Cut spend' };
+    const audit = (id: string, insights: unknown[]) => ({ id, startDate: '2024-03-01', endDate: '2024-03-31', summary: '', insights, kpis: {} });
+    const result = parseBackup(bundle({ aiAudits: [audit('ok', [insight]), audit('bad', [{ ...insight, metric: undefined }])] }));
+    expect(result.data.aiAudits.map(a => a.id)).toEqual(['ok']);
+  });
+
+  it('checks the priced flag on COGS entries', () => {
+    const entry = { sku: 'MUG', productName: 'Mug', cogs: 0, history: [] };
+    const result = parseBackup(bundle({ cogs: [{ ...entry, priced: true }, { ...entry, sku: 'CUP' }, { ...entry, sku: 'BOWL', priced: 'yes' }] }));
+    expect(result.data.cogs.map(c => c.sku)).toEqual(['MUG', 'CUP']);
+  });
+
+  it('rejects versions that are not whole numbers', () => {
+    expect(() => parseBackup(bundle({}, -1))).toThrow('invalid version');
+    expect(() => parseBackup(bundle({}, 1.5))).toThrow('invalid version');
+    expect(() => parseBackup(bundle({}, '3'))).toThrow('invalid version');
+    expect(() => parseBackup(bundle({}, BACKUP_VERSION + 1))).toThrow('newer version');
+  });
+
+  it('drops records with missing amounts so the stats stay finite', () => {
+    const sale = { date: '2024-03-01', grossSales: 50, discounts: 0, returns: 0, netSales: 50, shipping: 0, taxes: 0, totalSales: 50 };
+    const result = parseBackup(bundle({
+      orders: [order([{ sku: 'MUG', title: 'Mug', quantity: 1, price: 50 }]), { ...order([]), id: '2', name: '#1002', shipping: undefined }],
+      salesRecords: [sale, { date: '2024-03-02', totalSales: 80 }],
+      settlements: [{ orderName: '#1001', amountReceived: 48, fees: 2, status: 'settled' }, { orderName: '#1002', amountReceived: 70, status: 'settled' }],
+      ads: [{ date: '2024-03-01', campaignName: 'Mugs', spend: 10, impressions: 100, clicks: 4 }, { date: '2024-03-02', campaignName: 'Mugs', spend: 10 }]
+    }));
+    expect(result.issues.map(i => `${i.collection}: ${i.message}`)).toEqual([
+      'orders: shipping is not a number',
+      'salesRecords: grossSales is not a number',
+      'ads: impressions is not a number',
+      'settlements: fees is not a number'
+    ]);
+
+    const { data } = result;
+    const { stats } = computePeriodStats({
+      startDate: '2024-03-01', endDate: '2024-03-31',
+      orders: data.orders, sales: data.salesRecords, ads: data.ads, settlements: data.settlements,
+      expenses: [], feeRules: [], unitCost: () => 20, convertUsd: (amount) => amount, restockRefunds: true
+    });
+    Object.values(stats).forEach(value => expect(Number.isFinite(value)).toBe(true));
+    expect(stats.totalFees).toBe(2);
+  });
+
+  it('upgrades a bare data dump', () => {
+    const result = parseBackup(JSON.stringify({ orders: [order([])] }));
+    expect(result.workspaceName).toBe('Imported Workspace');
+    expect(result.importedCount).toBe(1);
+  });
+});
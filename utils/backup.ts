@@ -0,0 +1,203 @@
+
+import { WorkspaceData } from '../types';
+import { createEmptyWorkspaceData } from '../services/storageService';
+import { normalizeExpense } from './expenses';
+import { normalizeCogs } from './cogs';
+import { isCurrency } from './currency';
+import { isValidTimezone } from './dateUtils';
+import { isInsightProviderId, SEVERITY_ORDER } from './audit';
+
+export const BACKUP_VERSION = 3;
+
+export interface BackupBundle {
+  app: 'hydrict-dashboard';
+  version: number;
+  exportedAt: string;
+  workspaceName: string;
+  data: WorkspaceData;
+}
+
+export interface BackupIssue {
+  collection: string;
+  index: number;
+  message: string;
+}
+
+export interface BackupImportResult {
+  workspaceName: string;
+  data: WorkspaceData;
+  issues: BackupIssue[];
+  importedCount: number;
+}
+
+// Each entry upgrades a bundle from version N to N + 1
+const MIGRATIONS: Record<number, (bundle: any) => any> = {
+  // Version 0: a bare workspace data dump with no envelope
+  0: (raw) => ({ app: 'hydrict-dashboard', version: 1, exportedAt: '', workspaceName: 'Imported Workspace', data: raw }),
+  // Version 2: expenses gained a recurrence and an active date range
+  1: (bundle) => ({
+    ...bundle,
+    version: 2,
+    data: {
+      ...bundle.data,
+      expenses: Array.isArray(bundle.data?.expenses)
+        ? bundle.data.expenses.map((e: any) => e && typeof e === 'object' ? normalizeExpense(e) : e)
+        : bundle.data?.expenses
+    }
+  }),
+  // Version 3: COGS entries gained an effective-dated cost history
+  2: (bundle) => ({
+    ...bundle,
+    version: 3,
+    data: {
+      ...bundle.data,
+      cogs: Array.isArray(bundle.data?.cogs)
+        ? bundle.data.cogs.map((c: any) => c && typeof c === 'object' && typeof c.sku === 'string' ? normalizeCogs(c) : c)
+        : bundle.data?.cogs
+    }
+  }),
+};
+
+const isNum = (v: any) => typeof v === 'number' && Number.isFinite(v);
+const isStr = (v: any) => typeof v === 'string';
+
+// First of the listed fields that is not a number; optional fields only count when present
+const badNumber = (r: any, required: string[], optional: string[] = []) =>
+  required.find(f => !isNum(r[f])) || optional.find(f => r[f] !== undefined && !isNum(r[f]));
+const numberProblem = (r: any, required: string[], optional?: string[]) => {
+  const field = badNumber(r, required, optional);
+  return field ? `${field} is not a number` : null;
+};
+
+const isLineItem = (item: any) => isStr(item?.sku) && isStr(item.title) && isNum(item.quantity) && isNum(item.price);
+const isInsight = (insight: any) => isStr(insight?.title) && SEVERITY_ORDER.includes(insight.severity) && isStr(insight.metric) && isStr(insight.detail) && isStr(insight.action);
+
+// Returns a reason when a record is unusable, or null when it is valid
+const VALIDATORS: Record<Exclude<keyof WorkspaceData, 'settings'>, (r: any) => string | null> = {
+  orders: (r) => !isStr(r?.name) ? 'missing order name'
+    : !isStr(r.date) ? 'missing date'
+    : !Array.isArray(r.lineItems) ? 'lineItems is not a list'
+    : !r.lineItems.every(isLineItem) ? 'lineItems has invalid items'
+    : numberProblem(r, ['total', 'subtotal', 'tax', 'shipping'], ['discount', 'refunded']),
+  salesRecords: (r) => !isStr(r?.date) ? 'missing date'
+    : r.channel !== undefined && !isStr(r.channel) ? 'channel is not text'
+    : numberProblem(r, ['grossSales', 'discounts', 'returns', 'netSales', 'shipping', 'taxes', 'totalSales']),
+  ads: (r) => !isStr(r?.date) ? 'missing date'
+    : !isStr(r.campaignName) ? 'missing campaign name'
+    : numberProblem(r, ['spend', 'impressions', 'clicks']),
+  settlements: (r) => !isStr(r?.orderName) ? 'missing order name'
+    : !['settled', 'pending', 'failed'].includes(r.status) ? `unknown status "${r.status}"`
+    : numberProblem(r, ['amountReceived', 'fees']),
+  expenses: (r) => !isStr(r?.id) ? 'missing id'
+    : !isNum(r.amount) ? 'amount is not a number'
+    : !isStr(r.startDate) ? 'missing start date'
+    : !['one_off', 'monthly', 'yearly'].includes(r.recurrence) ? `unknown recurrence "${r.recurrence}"` : null,
+  cogs: (r) => !isStr(r?.sku) ? 'missing SKU'
+    : !isNum(r.cogs) ? 'cogs is not a number'
+    : r.priced !== undefined && typeof r.priced !== 'boolean' ? 'priced is not true or false'
+    : !Array.isArray(r.history) || r.history.some((h: any) => !isStr(h?.effectiveFrom) || !isNum(h.cogs)) ? 'history has invalid cost changes' : null,
+  feeRules: (r) => !isStr(r?.id) ? 'missing id'
+    : !['percentage', 'fixed_per_order', 'payment_method', 'monthly_flat'].includes(r.kind) ? `unknown fee kind "${r.kind}"`
+    : !isNum(r.percentage) || !isNum(r.fixedAmount) ? 'fee amounts are not numbers'
+    : !isStr(r.effectiveFrom) ? 'missing effective date' : null,
+  exchangeRates: (r) => !isStr(r?.date) ? 'missing date'
+    : !isCurrency(r.currency) ? `unsupported currency "${r.currency}"`
+    : !isNum(r.perUsd) || r.perUsd <= 0 ? 'rate must be a positive number' : null,
+  importProfiles: (r) => !isStr(r?.id) ? 'missing id'
+    : !isStr(r.type) ? 'missing report type'
+    : !r.mapping || typeof r.mapping !== 'object' ? 'mapping is not an object' : null,
+  attributionRules: (r) => !isStr(r?.id) ? 'missing id'
+    : !['contains', 'exact'].includes(r.campaignMatch) ? `unknown campaign match "${r.campaignMatch}"`
+    : !['skus', 'pattern'].includes(r.productMatch) ? `unknown product match "${r.productMatch}"`
+    : !isStr(r.campaignValue) ? 'campaign value is not text'
+    : !isStr(r.productPattern) ? 'product pattern is not text'
+    : !Array.isArray(r.skus) || !r.skus.every(isStr) ? 'skus is not a list of text' : null,
+  aiAudits: (r) => !isStr(r?.id) ? 'missing id'
+    : !isStr(r.startDate) || !isStr(r.endDate) ? 'missing audit period'
+    : !isStr(r.summary) ? 'missing summary'
+    : !Array.isArray(r.insights) ? 'insights is not a list'
+    : !r.insights.every(isInsight) ? 'insights has invalid entries'
+    : !r.kpis || typeof r.kpis !== 'object' ? 'kpis is not an object' : null,
+  alertRules: (r) => !isStr(r?.id) ? 'missing id'
+    : !['sales', 'adSpend', 'cogs', 'netProfit', 'roas', 'margin'].includes(r.metric) ? `unknown metric "${r.metric}"`
+    : !['daily', 'period'].includes(r.scope) ? `unknown scope "${r.scope}"`
+    : !['below', 'above'].includes(r.comparator) ? `unknown comparator "${r.comparator}"`
+    : !isNum(r.threshold) || !isNum(r.days) ? 'threshold and days must be numbers' : null,
+};
+
+export const createBackup = (workspaceName: string, data: WorkspaceData): BackupBundle => ({
+  app: 'hydrict-dashboard',
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  workspaceName,
+  data
+});
+
+export const parseBackup = (text: string): BackupImportResult => {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error("Backup file is not valid JSON.");
+  }
+  if (!bundle || typeof bundle !== 'object') throw new Error("Backup file is empty.");
+
+  let version = bundle.version === undefined ? 0 : bundle.version;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Backup has an invalid version "${bundle.version}".`);
+  }
+  if (version > BACKUP_VERSION) {
+    throw new Error(`Backup was created by a newer version (v${version}) of the dashboard.`);
+  }
+  while (version < BACKUP_VERSION) {
+    bundle = MIGRATIONS[version](bundle);
+    version = bundle.version;
+  }
+
+  const raw = bundle.data || {};
+  const data = createEmptyWorkspaceData();
+  const issues: BackupIssue[] = [];
+  let importedCount = 0;
+
+  (Object.keys(VALIDATORS) as (keyof typeof VALIDATORS)[]).forEach(collection => {
+    const records = raw[collection];
+    if (records === undefined) return;
+    if (!Array.isArray(records)) {
+      issues.push({ collection, index: -1, message: 'expected a list of records' });
+      return;
+    }
+    const valid: any[] = [];
+    records.forEach((record, index) => {
+      const problem = VALIDATORS[collection](record);
+      if (problem) issues.push({ collection, index, message: problem });
+      else valid.push(record);
+    });
+    (data as any)[collection] = valid;
+    importedCount += valid.length;
+  });
+
+  if (raw.settings && typeof raw.settings === 'object') {
+    const defaults = data.settings;
+    data.settings = { ...defaults, ...raw.settings };
+    (['currency', 'storeCurrency', 'adCurrency'] as const).forEach(field => {
+      if (!isCurrency(data.settings[field])) {
+        issues.push({ collection: 'settings', index: -1, message: `unsupported ${field} "${data.settings[field]}"` });
+        data.settings[field] = defaults[field];
+      }
+    });
+    if (!isValidTimezone(data.settings.timezone)) {
+      issues.push({ collection: 'settings', index: -1, message: `unknown timezone "${data.settings.timezone}"` });
+      data.settings.timezone = defaults.timezone;
+    }
+    if (!isInsightProviderId(data.settings.insightProvider)) {
+      issues.push({ collection: 'settings', index: -1, message: `unknown insight provider "${data.settings.insightProvider}"` });
+      data.settings.insightProvider = defaults.insightProvider;
+    }
+    if (typeof data.settings.restockRefunds !== 'boolean') {
+      issues.push({ collection: 'settings', index: -1, message: 'restockRefunds is not true or false' });
+      data.settings.restockRefunds = defaults.restockRefunds;
+    }
+  }
+
+  return { workspaceName: bundle.workspaceName || 'Imported Workspace', data, issues, importedCount };
+};
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { MetaAdReport } from '../types';
+import { adKey } from './importMerge';
+import { aggregateCampaigns, campaignSpendTrend } from './campaigns';
+
+const ad = (date: string, campaignName: string, spend: number): MetaAdReport => ({ date, campaignName, spend, impressions: 100, clicks: 5 });
+
+const ADS = [ad('2024-03-01', 'Spring Sale', 10), ad('2024-03-02', 'spring sale ', 15), ad('2024-03-02', 'Hoodies', 5)];
+
+describe('aggregateCampaigns', () => {
+  it('groups names the way imports deduplicate them', () => {
+    expect(adKey(ADS[0])).toBe('2024-03-01|spring sale');
+    expect(aggregateCampaigns(ADS).map(c => [c.campaignName, c.spend, c.activeDays])).toEqual([
+      ['Spring Sale', 25, 2],
+      ['Hoodies', 5, 1]
+    ]);
+  });
+
+  it('charts every spelling of a campaign on one line', () => {
+    const trend = campaignSpendTrend(ADS, ['Spring Sale'], '2024-03-01', '2024-03-02', 'day');
+    expect(trend.map(p => p['Spring Sale'])).toEqual([10, 15]);
+  });
+});
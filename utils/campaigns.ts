@@ -0,0 +1,58 @@
+
+import { MetaAdReport } from '../types';
+import { bucketKey, bucketRange, Granularity } from './dateRanges';
+
+export interface CampaignStats {
+  campaignName: string;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  cpc: number;
+  cpm: number;
+  activeDays: number;
+}
+
+// Ads Manager exports are not consistent about case and stray spaces, so campaigns are identified by this key
+export const campaignKey = (campaignName: string) => campaignName.trim().toLowerCase();
+
+export const aggregateCampaigns = (ads: MetaAdReport[]): CampaignStats[] => {
+  const byName = new Map<string, { name: string; spend: number; impressions: number; clicks: number; days: Set<string> }>();
+  ads.forEach(ad => {
+    const key = campaignKey(ad.campaignName);
+    // The first spelling seen is the one displayed
+    const entry = byName.get(key) || { name: ad.campaignName.trim(), spend: 0, impressions: 0, clicks: 0, days: new Set<string>() };
+    entry.spend += ad.spend;
+    entry.impressions += ad.impressions;
+    entry.clicks += ad.clicks;
+    entry.days.add(ad.date);
+    byName.set(key, entry);
+  });
+
+  return Array.from(byName.values()).map(e => ({
+    campaignName: e.name,
+    spend: e.spend,
+    impressions: e.impressions,
+    clicks: e.clicks,
+    ctr: e.impressions > 0 ? (e.clicks / e.impressions) * 100 : 0,
+    cpc: e.clicks > 0 ? e.spend / e.clicks : 0,
+    cpm: e.impressions > 0 ? (e.spend / e.impressions) * 1000 : 0,
+    activeDays: e.days.size
+  }));
+};
+
+// One point per bucket with a spend key per campaign, ready for a multi-line chart
+export const campaignSpendTrend = (ads: MetaAdReport[], campaignNames: string[], start: string, end: string, granularity: Granularity) => {
+  const wanted = new Map(campaignNames.map(name => [campaignKey(name), name]));
+  const buckets: Record<string, any> = {};
+  bucketRange(start, end, granularity).forEach(key => {
+    buckets[key] = { date: key };
+    campaignNames.forEach(name => { buckets[key][name] = 0; });
+  });
+  ads.forEach(ad => {
+    const bucket = buckets[bucketKey(ad.date, granularity)];
+    const name = wanted.get(campaignKey(ad.campaignName));
+    if (name !== undefined && bucket) bucket[name] += ad.spend;
+  });
+  return Object.values(buckets);
+};
@@ -0,0 +1,115 @@
+
+import { ProductCOGS } from '../types';
+import { computePeriodStats, profitTrend, PeriodInput } from './stats';
+import { aggregateCampaigns } from './campaigns';
+import { aggregateProducts, ProductStats } from './products';
+import { queryOrders, computeOrderBreakdown, OrderSortKey } from './orders';
+import { isVoidedOrder, OrderOutcome } from './pnl';
+import { reconcileSettlements, normalizeOrderName } from './reconciliation';
+import { costOnDate } from './cogs';
+import { Granularity } from './dateRanges';
+
+// What the chat's tools can read; `periodInputFor` returns display-currency records for any range
+export interface ChatDataSource {
+  periodInputFor: (startDate: string, endDate: string) => PeriodInput;
+  cogs: ProductCOGS[];
+  hasCogs: (sku: string) => boolean;
+  startDate: string;
+  endDate: string;
+  today: string;
+}
+
+const MAX_ROWS = 50;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const roundAll = <T extends Record<string, any>>(record: T) =>
+  Object.fromEntries(Object.entries(record).map(([k, v]) => [k, typeof v === 'number' ? round(v) : v])) as T;
+
+// Missing or malformed dates fall back to the range selected on the dashboard
+const resolveRange = (args: Record<string, any>, source: ChatDataSource) => {
+  const start = DATE_RE.test(args.start_date) ? args.start_date : source.startDate;
+  const end = DATE_RE.test(args.end_date) ? args.end_date : source.endDate;
+  return start <= end ? { start, end } : { start: end, end: start };
+};
+
+const limitOf = (args: Record<string, any>, fallback: number) =>
+  Math.min(MAX_ROWS, Math.max(1, Number.isFinite(args.limit) ? Math.floor(args.limit) : fallback));
+
+const TOOLS: Record<string, (args: Record<string, any>, source: ChatDataSource) => unknown> = {
+  get_stats: (args, source) => {
+    const { start, end } = resolveRange(args, source);
+    return { startDate: start, endDate: end, ...roundAll(computePeriodStats(source.periodInputFor(start, end)).stats) };
+  },
+
+  get_profit_trend: (args, source) => {
+    const { start, end } = resolveRange(args, source);
+    const granularity: Granularity = ['day', 'week', 'month', 'quarter'].includes(args.granularity) ? args.granularity : 'week';
+    return { granularity, points: profitTrend(source.periodInputFor(start, end), granularity).map(roundAll) };
+  },
+
+  query_orders: (args, source) => {
+    const { start, end } = resolveRange(args, source);
+    const input = source.periodInputFor(start, end);
+    const sortKey: OrderSortKey = ['name', 'date', 'items', 'total', 'status'].includes(args.sort_by) ? args.sort_by : 'date';
+    const outcome = ['kept', 'partially_refunded', 'refunded', 'voided'].includes(args.status) ? args.status as OrderOutcome : 'all';
+    const matches = queryOrders(input.orders, { search: args.search || '', outcome, from: '', to: '', sortKey, sortDesc: args.ascending !== true });
+
+    const reconciliation = reconcileSettlements(input.orders, input.settlements);
+    const settled = new Map(reconciliation.rows.filter(r => r.status !== 'missing').map(r => [normalizeOrderName(r.orderName), r.fees]));
+    return {
+      totalMatches: matches.length,
+      orders: matches.slice(0, limitOf(args, 20)).map(order => {
+        const breakdown = computeOrderBreakdown(order, {
+          feeRules: input.feeRules, unitCost: input.unitCost, convertUsd: input.convertUsd, restockRefunds: input.restockRefunds,
+          settlementFees: settled.get(normalizeOrderName(order.name)), hasSettlements: input.settlements.length > 0
+        });
+        return {
+          name: order.name, date: order.date, status: order.status, total: round(order.total),
+          items: order.lineItems.map(i => `${i.quantity}x ${i.sku}`).join(', '),
+          netSales: round(breakdown.netSales), cogs: round(breakdown.cogs), fees: round(breakdown.fees),
+          shipping: round(breakdown.shipping), profit: round(breakdown.profit)
+        };
+      })
+    };
+  },
+
+  get_campaigns: (args, source) => {
+    const { start, end } = resolveRange(args, source);
+    const campaigns = aggregateCampaigns(source.periodInputFor(start, end).ads).sort((a, b) => b.spend - a.spend);
+    return { campaigns: campaigns.slice(0, limitOf(args, 20)).map(roundAll) };
+  },
+
+  get_products: (args, source) => {
+    const { start, end } = resolveRange(args, source);
+    const input = source.periodInputFor(start, end);
+    const sortBy: keyof ProductStats = ['revenue', 'units', 'grossProfit', 'margin'].includes(args.sort_by) ? args.sort_by : 'grossProfit';
+    const products = aggregateProducts(input.orders.filter(o => !isVoidedOrder(o)), input.unitCost, input.restockRefunds, source.hasCogs, start, end, 'month')
+      .sort((a, b) => args.ascending === true ? (a[sortBy] as number) - (b[sortBy] as number) : (b[sortBy] as number) - (a[sortBy] as number));
+    return { products: products.slice(0, limitOf(args, 20)).map(({ trend, ...p }) => roundAll(p)) };
+  },
+
+  // Ledger costs stay in USD, as entered
+  get_cogs: (args, source) => {
+    const q = typeof args.sku === 'string' ? args.sku.trim().toLowerCase() : '';
+    const entries = source.cogs.filter(c => !q || c.sku.toLowerCase().includes(q) || c.productName.toLowerCase().includes(q));
+    return {
+      currency: 'USD',
+      entries: entries.slice(0, MAX_ROWS).map(c => ({
+        sku: c.sku, productName: c.productName, costToday: costOnDate(c, source.today), baseCost: c.cogs, history: c.history
+      }))
+    };
+  },
+};
+
+// Errors are returned to the model as data so it can correct its call instead of the chat failing
+export const runChatTool = (name: string, args: Record<string, any>, source: ChatDataSource): unknown => {
+  const tool = TOOLS[name];
+  if (!tool) return { error: `Unknown function "${name}"` };
+  try {
+    return tool(args, source);
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'The query failed.' };
+  }
+};
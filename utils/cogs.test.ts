@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { ProductCOGS } from '../types';
+import { applyCogsImport, costOnDate, diffCogsImport, isPriced } from './cogs';
+
+const entry = (overrides: Partial<ProductCOGS>): ProductCOGS => ({ sku: 'MUG', productName: 'Mug', cogs: 0, history: [], ...overrides });
+
+describe('isPriced', () => {
+  it('treats a seeded SKU as unpriced and a deliberate zero as priced', () => {
+    expect(isPriced(entry({ priced: false }))).toBe(false);
+    expect(isPriced(entry({ priced: true }))).toBe(true);
+  });
+
+  it('falls back to any non-zero cost for entries saved without the flag', () => {
+    expect(isPriced(entry({}))).toBe(false);
+    expect(isPriced(entry({ history: [{ effectiveFrom: '2024-03-01', cogs: 4 }] }))).toBe(true);
+  });
+});
+
+describe('applyCogsImport', () => {
+  it('marks imported costs as priced, zero included', () => {
+    const ledger = [entry({ priced: false })];
+    const diff = diffCogsImport(ledger, [{ SKU: 'MUG', 'Unit Cost': '0' }]);
+    expect(diff[0].status).toBe('new');
+    const [mug] = applyCogsImport(ledger, diff, false);
+    expect(isPriced(mug)).toBe(true);
+    expect(costOnDate(mug, '2024-03-01')).toBe(0);
+  });
+});
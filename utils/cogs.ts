@@ -0,0 +1,105 @@
+
+import { ProductCOGS } from '../types';
+import { parseDateStr } from './dateUtils';
+
+// Older workspaces and backups stored a single cost per SKU without a history
+export const normalizeCogs = (entry: Partial<ProductCOGS> & { sku: string }): ProductCOGS => ({
+  productName: '',
+  cogs: 0,
+  ...entry,
+  history: Array.isArray(entry.history)
+    ? [...entry.history].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+    : []
+});
+
+// USD unit cost in effect on `date`: the latest change on or before it, else the base cost
+export const costOnDate = (entry: ProductCOGS, date: string) => {
+  let cost = entry.cogs;
+  for (const change of entry.history) {
+    if (change.effectiveFrom > date) break;
+    cost = change.cogs;
+  }
+  return cost;
+};
+
+export const hasAnyCost = (entry: ProductCOGS) => entry.cogs > 0 || entry.history.some(h => h.cogs > 0);
+
+// Whether a cost was entered for the SKU, zero included; entries saved before `priced` existed fall back to any non-zero cost
+export const isPriced = (entry: ProductCOGS) => entry.priced ?? hasAnyCost(entry);
+
+export const createCostLookup = (cogs: ProductCOGS[]) => {
+  const bySku = new Map(cogs.map(c => [c.sku, c]));
+  return (sku: string, date: string) => {
+    const entry = bySku.get(sku);
+    return entry ? costOnDate(entry, date) : 0;
+  };
+};
+
+export type CogsDiffStatus = 'changed' | 'new' | 'unknown' | 'unchanged';
+
+export interface CogsDiffRow {
+  sku: string;
+  productName: string;
+  status: CogsDiffStatus;
+  // Cost in effect at the row's date before the import; null for SKUs not in the ledger
+  before: number | null;
+  after: number;
+  // Blank updates the base cost, a date adds or corrects a dated change
+  effectiveFrom?: string;
+}
+
+export const COGS_DIFF_LABELS: Record<CogsDiffStatus, string> = {
+  changed: 'Changed',
+  new: 'First cost',
+  unknown: 'Unknown SKU',
+  unchanged: 'Unchanged',
+};
+
+/**
+ * Compares uploaded cost rows with the ledger. "new" SKUs are in the ledger but have no cost yet;
+ * "unknown" SKUs have never been seen in an order and are only added when the user opts in.
+ * Expects rows already re-keyed to canonical column names by applyMapping.
+ */
+export const diffCogsImport = (ledger: ProductCOGS[], rows: any[]): CogsDiffRow[] => {
+  const bySku = new Map(ledger.map(c => [c.sku, c]));
+  // Repeats of the same SKU and date inside the file collapse to the last one
+  const incoming = new Map<string, CogsDiffRow>();
+
+  rows.forEach(row => {
+    const sku = (row.SKU || '').trim();
+    if (!sku) return;
+    const after = parseFloat(row['Unit Cost']) || 0;
+    const effectiveFrom = parseDateStr(row['Effective From'] || '') || undefined;
+    const entry = bySku.get(sku);
+    const before = entry ? (effectiveFrom ? costOnDate(entry, effectiveFrom) : entry.cogs) : null;
+    const status: CogsDiffStatus = !entry ? 'unknown'
+      : !isPriced(entry) ? 'new'
+      : before === after ? 'unchanged' : 'changed';
+    incoming.set(`${sku}|${effectiveFrom || ''}`, {
+      sku, productName: (row['Product Name'] || '').trim() || entry?.productName || '', status, before, after, effectiveFrom
+    });
+  });
+
+  return Array.from(incoming.values());
+};
+
+export const applyCogsImport = (ledger: ProductCOGS[], diff: CogsDiffRow[], includeUnknown: boolean): ProductCOGS[] => {
+  const bySku = new Map(ledger.map(c => [c.sku, c]));
+  diff.forEach(row => {
+    if (row.status === 'unchanged' || (row.status === 'unknown' && !includeUnknown)) return;
+    const entry = bySku.get(row.sku) || { sku: row.sku, productName: row.productName, cogs: 0, history: [] };
+    bySku.set(row.sku, row.effectiveFrom
+      ? normalizeCogs({ ...entry, priced: true, history: [...entry.history.filter(h => h.effectiveFrom !== row.effectiveFrom), { effectiveFrom: row.effectiveFrom, cogs: row.after }] })
+      : { ...entry, priced: true, cogs: row.after });
+  });
+  return Array.from(bySku.values());
+};
+
+export const COGS_CSV_HEADERS = ['SKU', 'Product Name', 'Unit Cost', 'Effective From'];
+
+// One row per cost point so the export re-imports into the same timeline
+export const cogsToCsvRows = (ledger: ProductCOGS[]) =>
+  ledger.flatMap(c => [
+    [c.sku, c.productName, c.cogs, ''],
+    ...c.history.map(h => [c.sku, c.productName, h.cogs, h.effectiveFrom])
+  ]);
@@ -0,0 +1,120 @@
+
+import { ReportType, ImportProfile, ColumnMapping } from '../types';
+
+export type ImportFieldKind = 'text' | 'date' | 'number' | 'integer';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  kind: ImportFieldKind;
+  required?: boolean;
+  // The first alias is the canonical column name the row mappers read
+  aliases: string[];
+}
+
+export type MappableReportType = 'shopify_orders' | 'shopify_sales' | 'meta_ads' | 'settlement' | 'cogs';
+
+export const IMPORT_FIELDS: Record<MappableReportType, ImportField[]> = {
+  shopify_orders: [
+    { key: 'name', label: 'Order name', kind: 'text', required: true, aliases: ['Name', 'Order', 'Order Name'] },
+    { key: 'id', label: 'Order ID', kind: 'text', aliases: ['Id', 'Order ID'] },
+    { key: 'date', label: 'Created at', kind: 'date', required: true, aliases: ['Created at', 'Date', 'Processed at'] },
+    { key: 'total', label: 'Total', kind: 'number', required: true, aliases: ['Total', 'Total price'] },
+    { key: 'subtotal', label: 'Subtotal', kind: 'number', aliases: ['Subtotal', 'Subtotal price'] },
+    { key: 'tax', label: 'Tax', kind: 'number', aliases: ['Tax', 'Taxes', 'Total tax'] },
+    { key: 'shipping', label: 'Shipping', kind: 'number', aliases: ['Shipping', 'Shipping cost'] },
+    { key: 'discount', label: 'Discount amount', kind: 'number', aliases: ['Discount Amount', 'Discount'] },
+    { key: 'refunded', label: 'Refunded amount', kind: 'number', aliases: ['Refunded Amount', 'Refunded'] },
+    { key: 'status', label: 'Financial status', kind: 'text', aliases: ['Financial Status', 'Status'] },
+    { key: 'paymentMethod', label: 'Payment method', kind: 'text', aliases: ['Payment Method', 'Payment Gateway', 'Gateway'] },
+    { key: 'currency', label: 'Currency', kind: 'text', aliases: ['Currency'] },
+    { key: 'sku', label: 'Line item SKU', kind: 'text', aliases: ['Lineitem sku', 'SKU', 'Variant SKU'] },
+    { key: 'title', label: 'Line item name', kind: 'text', aliases: ['Lineitem name', 'Title', 'Product'] },
+    { key: 'quantity', label: 'Line item quantity', kind: 'integer', aliases: ['Lineitem quantity', 'Quantity', 'Qty'] },
+    { key: 'price', label: 'Line item price', kind: 'number', aliases: ['Lineitem price', 'Price'] },
+  ],
+  shopify_sales: [
+    { key: 'date', label: 'Day', kind: 'date', required: true, aliases: ['Day', 'Date'] },
+    { key: 'grossSales', label: 'Gross sales', kind: 'number', aliases: ['Gross sales'] },
+    { key: 'discounts', label: 'Discounts', kind: 'number', aliases: ['Discounts'] },
+    { key: 'returns', label: 'Returns', kind: 'number', aliases: ['Returns'] },
+    { key: 'netSales', label: 'Net sales', kind: 'number', aliases: ['Net sales'] },
+    { key: 'shipping', label: 'Shipping', kind: 'number', aliases: ['Shipping'] },
+    { key: 'taxes', label: 'Taxes', kind: 'number', aliases: ['Taxes', 'Tax'] },
+    { key: 'totalSales', label: 'Total sales', kind: 'number', required: true, aliases: ['Total sales', 'Total'] },
+    { key: 'channel', label: 'Sales channel', kind: 'text', aliases: ['Sales channel', 'Channel'] },
+    { key: 'currency', label: 'Currency', kind: 'text', aliases: ['Currency'] },
+  ],
+  meta_ads: [
+    { key: 'date', label: 'Date', kind: 'date', required: true, aliases: ['Date', 'Reporting starts', 'Day'] },
+    { key: 'campaignName', label: 'Campaign name', kind: 'text', required: true, aliases: ['Campaign name', 'Campaign'] },
+    { key: 'spend', label: 'Amount spent', kind: 'number', required: true, aliases: ['Spend', 'Amount spent', 'Cost'] },
+    { key: 'impressions', label: 'Impressions', kind: 'integer', aliases: ['Impressions'] },
+    { key: 'clicks', label: 'Clicks', kind: 'integer', aliases: ['Link clicks', 'Clicks', 'Clicks (all)'] },
+    { key: 'currency', label: 'Currency', kind: 'text', aliases: ['Currency'] },
+  ],
+  settlement: [
+    { key: 'orderName', label: 'Order reference', kind: 'text', required: true, aliases: ['Order Name', 'Order', 'Order ID', 'Reference'] },
+    { key: 'amountReceived', label: 'Amount received', kind: 'number', required: true, aliases: ['Amount Received', 'Net Amount', 'Amount'] },
+    { key: 'fees', label: 'Fees', kind: 'number', aliases: ['Fees', 'Fee', 'Commission', 'Delivery Charges'] },
+    { key: 'status', label: 'Status', kind: 'text', aliases: ['Status', 'Payment Status'] },
+    { key: 'date', label: 'Settlement date', kind: 'date', aliases: ['Settlement Date', 'Date'] },
+    { key: 'currency', label: 'Currency', kind: 'text', aliases: ['Currency'] },
+  ],
+  cogs: [
+    { key: 'sku', label: 'SKU', kind: 'text', required: true, aliases: ['SKU', 'Variant SKU', 'Item SKU'] },
+    { key: 'cogs', label: 'Unit cost (USD)', kind: 'number', required: true, aliases: ['Unit Cost', 'Cost', 'COGS', 'Cost per item'] },
+    { key: 'productName', label: 'Product name', kind: 'text', aliases: ['Product Name', 'Product', 'Title'] },
+    { key: 'effectiveFrom', label: 'Effective from', kind: 'date', aliases: ['Effective From', 'Effective Date', 'Valid From'] },
+  ],
+};
+
+export const isMappableType = (type: ReportType): type is MappableReportType => type in IMPORT_FIELDS;
+
+// "Amount spent (USD)" and "amount_spent" should both match the "Amount spent" alias
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z0-9]/g, '');
+
+export const suggestMapping = (type: MappableReportType, headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = headers.map(h => ({ header: h, norm: normalizeHeader(h) }));
+
+  // Exact alias matches first so a fuzzy guess never steals a column another field owns outright
+  [true, false].forEach(exact => {
+    IMPORT_FIELDS[type].forEach(field => {
+      if (mapping[field.key]) return;
+      for (const alias of field.aliases) {
+        const target = normalizeHeader(alias);
+        const hit = normalized.find(h => !used.has(h.header) && h.norm && (exact
+          ? h.norm === target
+          : h.norm.includes(target) || target.includes(h.norm)));
+        if (hit) {
+          mapping[field.key] = hit.header;
+          used.add(hit.header);
+          return;
+        }
+      }
+    });
+  });
+
+  return mapping;
+};
+
+// A saved profile applies when every column it maps is present in the uploaded file
+export const detectProfile = (profiles: ImportProfile[], type: ReportType, headers: string[]) => {
+  const available = new Set(headers);
+  return profiles.find(p => p.type === type && Object.values(p.mapping).every(h => !h || available.has(h)));
+};
+
+export const missingRequiredFields = (type: MappableReportType, mapping: ColumnMapping) =>
+  IMPORT_FIELDS[type].filter(f => f.required && !mapping[f.key]);
+
+// Re-keys each row to the canonical column names so the row mappers never see unmapped columns
+export const applyMapping = (type: MappableReportType, rows: any[], mapping: ColumnMapping) => {
+  const fields = IMPORT_FIELDS[type].filter(f => mapping[f.key]);
+  return rows.map(row => {
+    const out: any = {};
+    fields.forEach(f => { out[f.aliases[0]] = row[mapping[f.key]] || ''; });
+    return out;
+  });
+};
@@ -0,0 +1,50 @@
+
+import { addDays, daysBetween, daysInMonth } from './dateUtils';
+
+export type CompareMode = 'off' | 'previous_period' | 'previous_year' | 'custom';
+
+export const COMPARE_MODE_LABELS: Record<CompareMode, string> = {
+  off: 'No comparison',
+  previous_period: 'Previous period',
+  previous_year: 'Same period last year',
+  custom: 'Custom range',
+};
+
+// 29 Feb falls back to 28 Feb in a non-leap year
+const shiftYear = (dateStr: string, years: number) => {
+  const y = +dateStr.slice(0, 4) + years;
+  const month = dateStr.slice(5, 7);
+  const maxDay = daysInMonth(`${y}-${month}-01`);
+  return `${y}-${month}-${String(Math.min(+dateStr.slice(8, 10), maxDay)).padStart(2, '0')}`;
+};
+
+export const comparisonRange = (
+  mode: CompareMode,
+  startDate: string,
+  endDate: string,
+  custom: { start: string; end: string }
+): { start: string; end: string } | null => {
+  switch (mode) {
+    case 'previous_period': {
+      const end = addDays(startDate, -1);
+      return { start: addDays(end, -(daysBetween(startDate, endDate) - 1)), end };
+    }
+    case 'previous_year':
+      return { start: shiftYear(startDate, -1), end: shiftYear(endDate, -1) };
+    case 'custom':
+      return custom.start && custom.end && custom.start <= custom.end ? custom : null;
+    default:
+      return null;
+  }
+};
+
+export interface Delta {
+  abs: number;
+  // Null when the comparison value is zero and a percentage would be meaningless
+  pct: number | null;
+}
+
+export const computeDelta = (current: number, previous: number): Delta => ({
+  abs: current - previous,
+  pct: previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null
+});
@@ -0,0 +1,41 @@
+
+import { parseCSV } from './csvParser';
+import type { CsvWorkerMessage } from '../workers/csvWorker';
+
+/**
+ * Parses a CSV file off the main thread, reporting progress as a 0..1 fraction.
+ * Falls back to parsing in place where Web Workers are unavailable.
+ */
+export const parseCSVFile = (file: File, onProgress?: (fraction: number) => void): Promise<any[]> => {
+  if (typeof Worker === 'undefined') {
+    return file.text().then(text => {
+      onProgress?.(1);
+      return parseCSV(text);
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/csvWorker.ts', import.meta.url), { type: 'module' });
+    const records: any[] = [];
+
+    worker.onmessage = (event: MessageEvent<CsvWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'rows') {
+        for (const record of message.records) records.push(record);
+      } else if (message.type === 'progress') {
+        onProgress?.(message.total > 0 ? message.loaded / message.total : 1);
+      } else if (message.type === 'done') {
+        worker.terminate();
+        resolve(records);
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "CSV worker failed"));
+    };
+    worker.postMessage({ file });
+  });
+};
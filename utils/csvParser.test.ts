@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { CsvStreamParser, parseCSV } from './csvParser';
+
+const parseRows = (...chunks: string[]) => {
+  const parser = new CsvStreamParser(',');
+  return [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.flush()];
+};
+
+describe('CsvStreamParser', () => {
+  it('trims unquoted fields but keeps whitespace inside quotes', () => {
+    expect(parseRows('  plain  ,"  padded  ", "x" \n')).toEqual([['plain', '  padded  ', 'x']]);
+  });
+
+  it('keeps quoted whitespace when a chunk ends between the closing quote and the delimiter', () => {
+    expect(parseRows('a," b ', '"', ',c\n')).toEqual([['a', ' b ', 'c']]);
+    expect(parseRows('" last "')).toEqual([[' last ']]);
+  });
+
+  it('handles escaped quotes, delimiters and line breaks inside quotes', () => {
+    expect(parseRows('"say ""hi""","a,b","two\nlines"\r\n')).toEqual([['say "hi"', 'a,b', 'two\nlines']]);
+  });
+});
+
+describe('parseCSV', () => {
+  it('detects the delimiter and skips blank lines', () => {
+    expect(parseCSV('Name;Total\n#1001; 50 \n\n#1002;" 60"\n')).toEqual([
+      { Name: '#1001', Total: '50' },
+      { Name: '#1002', Total: ' 60' }
+    ]);
+  });
+});
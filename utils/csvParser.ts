@@ -1,31 +1,136 @@
 
-export const parseCSV = (text: string) => {
-  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-  if (lines.length === 0) return [];
-
-  const splitLine = (line: string) => {
-    const result = [];
-    let cur = '';
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(cur.trim());
-        cur = '';
+export type CsvDelimiter = ',' | ';' | '\t';
+
+const CANDIDATE_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+// Picks whichever candidate occurs most often outside quotes on the header line
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+  for (let i = 0; i < sample.length; i++) {
+    const char = sample[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && char in counts) counts[char] += 1;
+  }
+  return CANDIDATE_DELIMITERS.reduce((best, d) => counts[d] > counts[best] ? d : best, ',' as CsvDelimiter);
+};
+
+/**
+ * RFC 4180 parser that accepts input in arbitrary chunks.
+ * Quoted fields may contain delimiters, line breaks and "" escapes, and a chunk
+ * boundary may fall anywhere (even between the two quotes of an escape).
+ */
+export class CsvStreamParser {
+  private delimiter: CsvDelimiter | null;
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  private quoteInQuotes = false;
+  // Whitespace inside quotes is data; only what surrounds them is trimmed
+  private quoted = false;
+  private quotedLength = 0;
+  private skipLineFeed = false;
+  private started = false;
+  private pending = '';
+
+  constructor(delimiter?: CsvDelimiter) {
+    this.delimiter = delimiter || null;
+  }
+
+  push(chunk: string): string[][] {
+    if (!this.started) {
+      chunk = chunk.replace(/^\uFEFF/, '');
+      this.started = true;
+    }
+    if (!this.delimiter) {
+      // Hold input back until the whole header line is available for delimiter detection
+      this.pending += chunk;
+      if (!/[\r\n]/.test(this.pending)) return [];
+      this.delimiter = detectDelimiter(this.pending);
+      chunk = this.pending;
+      this.pending = '';
+    }
+
+    const rows: string[][] = [];
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.quoteInQuotes) {
+        this.quoteInQuotes = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        // The previous quote closed the field; handle this character as unquoted
+        this.inQuotes = false;
+        this.quotedLength = this.field.length;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') this.quoteInQuotes = true;
+        else this.field += char;
+        continue;
+      }
+
+      if (char === '"' && this.field.trim() === '') {
+        this.field = '';
+        this.inQuotes = true;
+        this.quoted = true;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        this.skipLineFeed = char === '\r';
+        this.endRow(rows);
       } else {
-        cur += char;
+        this.field += char;
       }
     }
-    result.push(cur.trim());
-    return result;
-  };
-
-  const headers = splitLine(lines[0]).map(h => h.replace(/^"|"$/g, ''));
-  
-  return lines.slice(1).map(line => {
-    const values = splitLine(line).map(v => v.replace(/^"|"$/g, ''));
+    return rows;
+  }
+
+  flush(): string[][] {
+    const rows: string[][] = [];
+    if (!this.delimiter) {
+      this.delimiter = detectDelimiter(this.pending);
+      rows.push(...this.push(this.pending));
+      this.pending = '';
+    }
+    if (this.quoteInQuotes) {
+      this.inQuotes = false;
+      this.quotedLength = this.field.length;
+    }
+    if (this.field !== '' || this.row.length > 0) this.endRow(rows);
+    return rows;
+  }
+
+  private endField() {
+    if (this.quoted) {
+      // An unterminated quote runs to the end of the input
+      const end = this.inQuotes ? this.field.length : this.quotedLength;
+      this.row.push(this.field.slice(0, end) + this.field.slice(end).trim());
+    } else {
+      this.row.push(this.field.trim());
+    }
+    this.field = '';
+    this.quoted = false;
+  }
+
+  private endRow(rows: string[][]) {
+    this.endField();
+    // Blank lines carry no data
+    if (this.row.length > 1 || this.row[0] !== '') rows.push(this.row);
+    this.row = [];
+  }
+}
+
+export const rowsToRecords = (headers: string[], rows: string[][]) => {
+  return rows.map(values => {
     const obj: any = {};
     headers.forEach((header, i) => {
       if (header) {
@@ -36,6 +141,19 @@ export const parseCSV = (text: string) => {
   });
 };
 
+export const parseCSV = (text: string) => {
+  const parser = new CsvStreamParser();
+  const rows = [...parser.push(text), ...parser.flush()];
+  if (rows.length === 0) return [];
+  return rowsToRecords(rows[0], rows.slice(1));
+};
+
+// Quotes only the fields that need it, doubling embedded quotes per RFC 4180
+const escapeField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCSV = (headers: string[], rows: (string | number)[][]) =>
+  [headers, ...rows].map(row => row.map(v => escapeField(String(v))).join(',')).join('\r\n');
+
 export const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -0,0 +1,129 @@
+
+import { Currency, ExchangeRate, ShopifyOrder, ShopifySalesRecord, MetaAdReport, SettlementReport } from '../types';
+import { getTodayStr } from './dateUtils';
+
+export const CURRENCIES: Currency[] = ['PKR', 'USD', 'EUR', 'GBP', 'AED'];
+
+// Used whenever the rate table has no entry for a currency at all
+export const DEFAULT_RATES_PER_USD: Record<Currency, number> = {
+  USD: 1,
+  PKR: 280,
+  EUR: 0.92,
+  GBP: 0.79,
+  AED: 3.6725,
+};
+
+export const isCurrency = (value: any): value is Currency => CURRENCIES.includes(value);
+
+export const formatCurrency = (amount: number, currency: Currency) => new Intl.NumberFormat(currency === 'PKR' ? 'en-PK' : 'en-US', {
+  style: 'currency', currency, maximumFractionDigits: 0
+}).format(amount);
+
+// Picks a currency code out of headers such as "Amount spent (USD)"
+export const detectHeaderCurrency = (headers: string[]): Currency | undefined => {
+  for (const key of headers) {
+    const match = key.match(/\(([A-Z]{3})\)/);
+    if (match && isCurrency(match[1])) return match[1];
+  }
+  return undefined;
+};
+
+export const rateKey = (r: ExchangeRate) => `${r.date}|${r.currency}`;
+
+// Accepts either long format (Date, Currency, Rate) or one column per currency (Date, PKR, EUR, ...)
+export const mapExchangeRateRows = (rows: any[]): ExchangeRate[] => {
+  const rates: ExchangeRate[] = [];
+  rows.forEach(row => {
+    const date = (row.Date || row.Day || '').split(' ')[0];
+    if (!date) return;
+    const code = (row.Currency || '').toUpperCase();
+    if (isCurrency(code)) {
+      const perUsd = parseFloat(row.Rate || row['Per USD'] || row.Value);
+      if (perUsd > 0) rates.push({ date, currency: code, perUsd });
+      return;
+    }
+    CURRENCIES.forEach(currency => {
+      const perUsd = parseFloat(row[currency]);
+      if (currency !== 'USD' && perUsd > 0) rates.push({ date, currency, perUsd });
+    });
+  });
+  return rates;
+};
+
+export type Converter = (amount: number, from: Currency | undefined, date?: string) => number;
+
+/**
+ * Builds a converter into `target` that uses the rate in effect on each amount's own date:
+ * the latest table entry on or before that date, else the earliest one after it.
+ * Amounts without a source currency predate multi-currency support and are USD.
+ */
+export const createConverter = (rates: ExchangeRate[], target: Currency): Converter => {
+  const byCurrency = new Map<Currency, ExchangeRate[]>();
+  rates.forEach(r => byCurrency.set(r.currency, [...(byCurrency.get(r.currency) || []), r]));
+  byCurrency.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const cache = new Map<string, number>();
+  const perUsdOn = (currency: Currency, date: string) => {
+    if (currency === 'USD') return 1;
+    const key = `${currency}|${date}`;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    const list = byCurrency.get(currency);
+    let rate = DEFAULT_RATES_PER_USD[currency];
+    if (list && list.length > 0) {
+      let lo = 0;
+      let hi = list.length - 1;
+      let found = -1;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (list[mid].date <= date) { found = mid; lo = mid + 1; } else { hi = mid - 1; }
+      }
+      rate = list[found >= 0 ? found : 0].perUsd;
+    }
+    cache.set(key, rate);
+    return rate;
+  };
+
+  return (amount, from = 'USD', date = getTodayStr()) => {
+    if (from === target || !amount) return amount;
+    return amount / perUsdOn(from, date) * perUsdOn(target, date);
+  };
+};
+
+export const convertOrder = (o: ShopifyOrder, convert: Converter, target: Currency): ShopifyOrder => ({
+  ...o,
+  total: convert(o.total, o.currency, o.date),
+  subtotal: convert(o.subtotal, o.currency, o.date),
+  tax: convert(o.tax, o.currency, o.date),
+  shipping: convert(o.shipping, o.currency, o.date),
+  discount: o.discount && convert(o.discount, o.currency, o.date),
+  refunded: o.refunded && convert(o.refunded, o.currency, o.date),
+  lineItems: o.lineItems.map(item => ({ ...item, price: convert(item.price, o.currency, o.date) })),
+  currency: target
+});
+
+export const convertSalesRecord = (s: ShopifySalesRecord, convert: Converter, target: Currency): ShopifySalesRecord => ({
+  ...s,
+  grossSales: convert(s.grossSales, s.currency, s.date),
+  discounts: convert(s.discounts, s.currency, s.date),
+  returns: convert(s.returns, s.currency, s.date),
+  netSales: convert(s.netSales, s.currency, s.date),
+  shipping: convert(s.shipping, s.currency, s.date),
+  taxes: convert(s.taxes, s.currency, s.date),
+  totalSales: convert(s.totalSales, s.currency, s.date),
+  currency: target
+});
+
+export const convertAd = (a: MetaAdReport, convert: Converter, target: Currency): MetaAdReport => ({
+  ...a,
+  spend: convert(a.spend, a.currency, a.date),
+  currency: target
+});
+
+export const convertSettlement = (s: SettlementReport, convert: Converter, target: Currency): SettlementReport => ({
+  ...s,
+  amountReceived: convert(s.amountReceived, s.currency, s.date),
+  fees: convert(s.fees, s.currency, s.date),
+  currency: target
+});
@@ -0,0 +1,92 @@
+
+import { addDays, daysInMonth } from './dateUtils';
+
+export type DatePreset = 'today' | 'last_7_days' | 'last_30_days' | 'month_to_date' | 'quarter_to_date' | 'year_to_date' | 'last_month';
+
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+  today: 'Today',
+  last_7_days: 'Last 7 days',
+  last_30_days: 'Last 30 days',
+  month_to_date: 'Month to date',
+  quarter_to_date: 'Quarter to date',
+  year_to_date: 'Year to date',
+  last_month: 'Last month',
+};
+
+export type Granularity = 'day' | 'week' | 'month' | 'quarter';
+
+export const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+};
+
+const quarterStartMonth = (dateStr: string) => Math.floor((+dateStr.slice(5, 7) - 1) / 3) * 3 + 1;
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// `today` is the current day in the workspace timezone
+export const presetRange = (preset: DatePreset, today: string): { start: string; end: string } => {
+  const year = today.slice(0, 4);
+  switch (preset) {
+    case 'today': return { start: today, end: today };
+    case 'last_7_days': return { start: addDays(today, -6), end: today };
+    case 'last_30_days': return { start: addDays(today, -29), end: today };
+    case 'month_to_date': return { start: `${today.slice(0, 7)}-01`, end: today };
+    case 'quarter_to_date': return { start: `${year}-${pad(quarterStartMonth(today))}-01`, end: today };
+    case 'year_to_date': return { start: `${year}-01-01`, end: today };
+    case 'last_month': {
+      const end = addDays(`${today.slice(0, 7)}-01`, -1);
+      return { start: `${end.slice(0, 7)}-01`, end };
+    }
+  }
+};
+
+export const matchPreset = (start: string, end: string, today: string) =>
+  (Object.keys(DATE_PRESET_LABELS) as DatePreset[]).find(p => {
+    const range = presetRange(p, today);
+    return range.start === start && range.end === end;
+  });
+
+// First day of the bucket a date falls in; weeks start on Monday
+export const bucketKey = (dateStr: string, granularity: Granularity) => {
+  switch (granularity) {
+    case 'week': {
+      const weekday = new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+      return addDays(dateStr, -((weekday + 6) % 7));
+    }
+    case 'month': return `${dateStr.slice(0, 7)}-01`;
+    case 'quarter': return `${dateStr.slice(0, 4)}-${pad(quarterStartMonth(dateStr))}-01`;
+    default: return dateStr;
+  }
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const bucketLabel = (key: string, granularity: Granularity) => {
+  switch (granularity) {
+    case 'week': return `Wk ${key.slice(5)}`;
+    case 'month': return `${MONTHS[+key.slice(5, 7) - 1]} ${key.slice(0, 4)}`;
+    case 'quarter': return `Q${Math.floor((+key.slice(5, 7) - 1) / 3) + 1} ${key.slice(0, 4)}`;
+    default: return key;
+  }
+};
+
+const nextBucket = (key: string, granularity: Granularity) => {
+  switch (granularity) {
+    case 'week': return addDays(key, 7);
+    case 'month': return addDays(key, daysInMonth(key));
+    // No quarter is longer than 92 days, so this always lands inside the next one
+    case 'quarter': return bucketKey(addDays(key, 92), 'quarter');
+    default: return addDays(key, 1);
+  }
+};
+
+export const bucketEnd = (key: string, granularity: Granularity) => addDays(nextBucket(key, granularity), -1);
+
+// Every bucket touching [start, end], so charts show empty periods instead of skipping them
+export const bucketRange = (start: string, end: string, granularity: Granularity) => {
+  const keys: string[] = [];
+  for (let key = bucketKey(start, granularity); key <= end; key = nextBucket(key, granularity)) keys.push(key);
+  return keys;
+};
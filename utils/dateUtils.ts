@@ -0,0 +1,64 @@
+
+// YYYY-MM-DD of an instant as seen from `timeZone`; en-CA happens to format dates that way
+export const formatInTimezone = (ms: number, timeZone: string) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(ms);
+
+export const DEFAULT_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimezone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Utility to get date strings
+export const getTodayStr = (timeZone?: string) => timeZone ? formatInTimezone(Date.now(), timeZone) : new Date().toISOString().split('T')[0];
+export const getFirstOfMonthStr = () => {
+  const d = new Date();
+  return new Date(d.getFullYear(), d.getMonth(), 1).toISOString().split('T')[0];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Works on YYYY-MM-DD strings in UTC so DST shifts never add or drop a day
+export const parseDay = (dateStr: string) => Date.UTC(+dateStr.slice(0, 4), +dateStr.slice(5, 7) - 1, +dateStr.slice(8, 10));
+export const formatDay = (ms: number) => new Date(ms).toISOString().split('T')[0];
+export const addDays = (dateStr: string, days: number) => formatDay(parseDay(dateStr) + days * DAY_MS);
+export const daysBetween = (from: string, to: string) => Math.round((parseDay(to) - parseDay(from)) / DAY_MS) + 1;
+export const daysInMonth = (dateStr: string) => new Date(Date.UTC(+dateStr.slice(0, 4), +dateStr.slice(5, 7), 0)).getUTCDate();
+export const daysInYear = (dateStr: string) => {
+  const y = +dateStr.slice(0, 4);
+  return (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0 ? 366 : 365;
+};
+
+const ZONED_TIMESTAMP = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Normalizes "2024-01-05 10:12:00 +0500", ISO timestamps and other parseable dates to YYYY-MM-DD.
+ * With a `timeZone`, timestamps that carry an offset are moved to that zone's calendar day first,
+ * so an order placed at 23:30 UTC lands on the next day for a store running on UTC+5.
+ */
+export const parseDateStr = (value: string, timeZone?: string): string | null => {
+  const trimmed = (value || '').trim();
+  if (!trimmed) return null;
+  const zoned = timeZone ? trimmed.match(ZONED_TIMESTAMP) : null;
+  if (zoned) {
+    const [, day, time, offset] = zoned;
+    const iso = `${day}T${time}${offset.toUpperCase() === 'Z' ? 'Z' : `${offset.slice(0, 3)}:${offset.slice(-2)}`}`;
+    const ms = Date.parse(iso);
+    if (!isNaN(ms)) return formatInTimezone(ms, timeZone!);
+  }
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    const [, y, m, d] = iso;
+    const check = new Date(Date.UTC(+y, +m - 1, +d));
+    return check.getUTCMonth() === +m - 1 && check.getUTCDate() === +d ? `${y}-${m}-${d}` : null;
+  }
+  const parsed = new Date(trimmed);
+  if (isNaN(parsed.getTime())) return null;
+  return `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}-${String(parsed.getDate()).padStart(2, '0')}`;
+};
@@ -0,0 +1,68 @@
+
+import { ManualExpense, ExpenseRecurrence } from '../types';
+import { getFirstOfMonthStr, addDays, daysBetween, daysInMonth, daysInYear } from './dateUtils';
+
+export const RECURRENCE_LABELS: Record<ExpenseRecurrence, string> = {
+  one_off: 'One-off',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+// Expenses saved before dates existed were treated as recurring overheads
+export const normalizeExpense = (expense: Partial<ManualExpense> & { id: string }): ManualExpense => ({
+  category: '',
+  amount: 0,
+  note: '',
+  recurrence: 'monthly',
+  startDate: getFirstOfMonthStr(),
+  ...expense
+});
+
+/**
+ * Share of an expense that falls inside [start, end].
+ * One-offs are spread evenly over their own span (a single day when no end date is set);
+ * recurring amounts accrue per day so partial months and years are prorated.
+ * `convert` turns a USD amount into the display currency at a given day's rate.
+ */
+export const expenseAmountInRange = (
+  expense: ManualExpense,
+  start: string,
+  end: string,
+  convert: (amount: number, date: string) => number = (amount) => amount
+) => {
+  if (!expense.startDate || !expense.amount) return 0;
+
+  const activeEnd = expense.endDate || (expense.recurrence === 'one_off' ? expense.startDate : end);
+  const from = expense.startDate > start ? expense.startDate : start;
+  const to = activeEnd < end ? activeEnd : end;
+  if (from > to) return 0;
+
+  if (expense.recurrence === 'one_off') {
+    const spanDays = daysBetween(expense.startDate, activeEnd);
+    return spanDays > 0 ? convert(expense.amount, expense.startDate) * daysBetween(from, to) / spanDays : 0;
+  }
+
+  let total = 0;
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    total += convert(expense.amount, day) / (expense.recurrence === 'monthly' ? daysInMonth(day) : daysInYear(day));
+  }
+  return total;
+};
+
+export const expensesByCategory = (
+  expenses: ManualExpense[],
+  start: string,
+  end: string,
+  convert?: (amount: number, date: string) => number
+) => {
+  const totals = new Map<string, number>();
+  expenses.forEach(expense => {
+    const amount = expenseAmountInRange(expense, start, end, convert);
+    if (amount <= 0) return;
+    const category = expense.category.trim() || 'Uncategorized';
+    totals.set(category, (totals.get(category) || 0) + amount);
+  });
+  return Array.from(totals.entries())
+    .map(([category, amount]) => ({ category, amount }))
+    .sort((a, b) => b.amount - a.amount);
+};
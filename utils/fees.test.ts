@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { FeeRule, ShopifyOrder } from '../types';
+import { computeFeeLines } from './fees';
+
+const order = (name: string, total: number, paymentMethod = 'Card'): ShopifyOrder => ({
+  id: name, name, date: '2024-03-10', total, subtotal: total, tax: 0, shipping: 0, status: 'paid', paymentMethod,
+  lineItems: [{ sku: 'MUG', title: 'Mug', quantity: 1, price: total }]
+});
+
+const rule = (overrides: Partial<FeeRule>): FeeRule => ({
+  id: 'rule', name: '', kind: 'percentage', percentage: 0, fixedAmount: 0, effectiveFrom: '2024-01-01', ...overrides
+});
+
+const ORDERS = [order('#1001', 100), order('#1002', 200), order('#1003', 300, 'COD')];
+const settled = (amount: number, ...names: string[]) => ({ amount, orderNames: new Set(names) });
+const total = (lines: { amount: number }[]) => lines.reduce((acc, line) => acc + line.amount, 0);
+
+describe('computeFeeLines', () => {
+  it('estimates fees when nothing else is known', () => {
+    const lines = computeFeeLines(ORDERS, [], '2024-03-01', '2024-03-31', { estimateBase: 600 });
+    expect(lines).toEqual([{ ruleId: 'estimate', label: 'Estimated fees (3%)', amount: 18, orderCount: 3 }]);
+  });
+
+  it('applies per-order rules only to orders without a settlement row', () => {
+    const rules = [rule({ id: 'gateway', percentage: 2 }), rule({ id: 'cod', kind: 'payment_method', paymentMethod: 'cod', fixedAmount: 5 })];
+    const lines = computeFeeLines(ORDERS, rules, '2024-03-01', '2024-03-31', { settlementFees: settled(9, '1001', '1003'), estimateBase: 600 });
+    expect(lines.map(l => [l.ruleId, l.amount, l.orderCount])).toEqual([
+      ['settlements', 9, 2],
+      ['gateway', 4, 1],
+      ['cod', 0, 0]
+    ]);
+  });
+
+  it('estimates orders missing from the settlement files when there are no per-order rules', () => {
+    const lines = computeFeeLines(ORDERS, [], '2024-03-01', '2024-03-31', { settlementFees: settled(9, '1001'), estimateBase: 600 });
+    expect(lines.map(l => [l.ruleId, l.amount, l.orderCount])).toEqual([['settlements', 9, 1], ['estimate', 15, 2]]);
+  });
+
+  it('adds nothing for unsettled orders once every order is settled', () => {
+    const lines = computeFeeLines(ORDERS, [], '2024-03-01', '2024-03-31', { settlementFees: settled(9, '1001', '1002', '1003'), estimateBase: 600 });
+    expect(total(lines)).toBe(9);
+  });
+
+  it('keeps monthly flat fees alongside settlements and does not estimate without settlements', () => {
+    const monthly = rule({ id: 'app', kind: 'monthly_flat', fixedAmount: 31 });
+    expect(total(computeFeeLines(ORDERS, [monthly], '2024-03-01', '2024-03-31', { estimateBase: 600 }))).toBeCloseTo(31);
+    expect(total(computeFeeLines(ORDERS, [monthly], '2024-03-01', '2024-03-31', { settlementFees: settled(9, '1001'), estimateBase: 600 }))).toBeCloseTo(31 + 9 + 15);
+  });
+});
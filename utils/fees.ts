@@ -0,0 +1,93 @@
+
+import { ShopifyOrder, FeeRule, FeeRuleKind, FeeLine } from '../types';
+import { addDays, daysInMonth } from './dateUtils';
+import { normalizeOrderName } from './reconciliation';
+import { orderRevenue } from './pnl';
+
+export const FEE_KIND_LABELS: Record<FeeRuleKind, string> = {
+  percentage: 'Percentage of order',
+  fixed_per_order: 'Fixed per order',
+  payment_method: 'Per payment method',
+  monthly_flat: 'Monthly flat',
+};
+
+export const ESTIMATED_FEE_RATE = 0.03;
+
+// Fixed amounts in rules are entered in USD and converted at the rate of the day they apply
+type FixedConverter = (amount: number, date: string) => number;
+
+const isActiveOn = (rule: FeeRule, date: string) =>
+  date >= rule.effectiveFrom && (!rule.effectiveTo || date <= rule.effectiveTo);
+
+const matchesPaymentMethod = (rule: FeeRule, order: ShopifyOrder) =>
+  !!rule.paymentMethod && (order.paymentMethod || '').toLowerCase().includes(rule.paymentMethod.trim().toLowerCase());
+
+// Fee a single order incurs under one rule; monthly flat fees are not tied to orders
+export const orderFeeForRule = (rule: FeeRule, order: ShopifyOrder, convertFixed: FixedConverter = (amount) => amount) => {
+  if (rule.kind === 'monthly_flat' || !isActiveOn(rule, order.date)) return 0;
+  if (rule.kind === 'payment_method' && !matchesPaymentMethod(rule, order)) return 0;
+  const percentage = rule.kind === 'fixed_per_order' ? 0 : rule.percentage;
+  return order.total * percentage / 100 + convertFixed(rule.fixedAmount, order.date);
+};
+
+const monthlyFeeInRange = (rule: FeeRule, start: string, end: string, convertFixed: FixedConverter) => {
+  const from = rule.effectiveFrom > start ? rule.effectiveFrom : start;
+  const to = rule.effectiveTo && rule.effectiveTo < end ? rule.effectiveTo : end;
+  let total = 0;
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    total += convertFixed(rule.fixedAmount, day) / daysInMonth(day);
+  }
+  return total;
+};
+
+// Orders without a settlement row are estimated when no per-order rule could price them
+export const usesFeeEstimate = (rules: FeeRule[], hasSettlements: boolean) =>
+  !rules.some(rule => rule.kind !== 'monthly_flat') && (hasSettlements || rules.length === 0);
+
+/**
+ * Breaks fees for the window down into one line per source.
+ * An order with a settlement row is charged its actual settlement fees, which replace
+ * the per-order rules for it; the rules apply to the remaining orders. Without per-order
+ * rules those orders get the flat estimate instead, unless only monthly fees are configured.
+ */
+export const computeFeeLines = (
+  orders: ShopifyOrder[],
+  rules: FeeRule[],
+  start: string,
+  end: string,
+  options: { settlementFees?: { amount: number; orderNames: Set<string> }; estimateBase: number; convertFixed?: FixedConverter }
+): FeeLine[] => {
+  const { settlementFees, estimateBase, convertFixed = (amount: number) => amount } = options;
+  const lines: FeeLine[] = [];
+
+  if (settlementFees) {
+    lines.push({ ruleId: 'settlements', label: 'Courier / gateway settlements', amount: settlementFees.amount, orderCount: settlementFees.orderNames.size });
+  }
+  // `orderNames` holds the normalized names of the orders a settlement row was matched to
+  const unsettled = settlementFees ? orders.filter(o => !settlementFees.orderNames.has(normalizeOrderName(o.name))) : orders;
+
+  rules.forEach(rule => {
+    if (rule.kind === 'monthly_flat') {
+      lines.push({ ruleId: rule.id, label: rule.name || FEE_KIND_LABELS[rule.kind], amount: monthlyFeeInRange(rule, start, end, convertFixed), orderCount: 0 });
+      return;
+    }
+    let amount = 0;
+    let orderCount = 0;
+    unsettled.forEach(order => {
+      const fee = orderFeeForRule(rule, order, convertFixed);
+      if (fee !== 0) {
+        amount += fee;
+        orderCount += 1;
+      }
+    });
+    lines.push({ ruleId: rule.id, label: rule.name || FEE_KIND_LABELS[rule.kind], amount, orderCount });
+  });
+
+  // `estimateBase` covers every order; once some are settled only the rest are estimated
+  if (usesFeeEstimate(rules, !!settlementFees) && (!settlementFees || unsettled.length > 0)) {
+    const base = settlementFees ? unsettled.reduce((acc, order) => acc + orderRevenue(order).net, 0) : estimateBase;
+    lines.push({ ruleId: 'estimate', label: `Estimated fees (${ESTIMATED_FEE_RATE * 100}%)`, amount: base * ESTIMATED_FEE_RATE, orderCount: unsettled.length });
+  }
+
+  return lines;
+};
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { ShopifySalesRecord } from '../types';
+import { mergeRecords, salesKey } from './importMerge';
+
+const sale = (date: string, totalSales: number, channel?: string): ShopifySalesRecord => ({
+  date, grossSales: totalSales, discounts: 0, returns: 0, netSales: totalSales, shipping: 0, taxes: 0, totalSales, channel
+});
+
+describe('mergeRecords with salesKey', () => {
+  it('keeps one row per channel on the same day', () => {
+    const { records, summary } = mergeRecords([], [sale('2024-03-01', 100, 'Online Store'), sale('2024-03-01', 40, 'Point of Sale')], salesKey, s => s.date, 'merge');
+    expect(records).toHaveLength(2);
+    expect(summary.added).toBe(2);
+  });
+
+  it('updates a channel row when the same day is imported again', () => {
+    const existing = [sale('2024-03-01', 100, 'Online Store'), sale('2024-03-01', 40, 'Point of Sale')];
+    const { records, summary } = mergeRecords(existing, [sale('2024-03-01', 120, 'online store ')], salesKey, s => s.date, 'merge');
+    expect(records.map(r => r.totalSales)).toEqual([120, 40]);
+    expect(summary.updated).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+
+import { ShopifyOrder, ShopifySalesRecord, MetaAdReport, SettlementReport } from '../types';
+import { normalizeOrderName } from './reconciliation';
+import { campaignKey } from './campaigns';
+
+export type ImportMode = 'merge' | 'replace_range' | 'skip_duplicates';
+
+export interface ImportSummary {
+  mode: ImportMode;
+  added: number;
+  updated: number;
+  skipped: number;
+  removed: number;
+}
+
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+  merge: 'Merge',
+  replace_range: 'Replace Range',
+  skip_duplicates: 'Skip Duplicates',
+};
+
+// Natural identity of each record type, used to recognise the same row across uploads
+export const orderKey = (o: ShopifyOrder) => o.id ? `id:${o.id}` : `name:${normalizeOrderName(o.name)}`;
+export const salesKey = (s: ShopifySalesRecord) => `${s.date}|${(s.channel || '').trim().toLowerCase()}`;
+export const adKey = (a: MetaAdReport) => `${a.date}|${campaignKey(a.campaignName)}`;
+// Several payouts per order are legitimate, so only byte-identical settlement lines count as duplicates
+export const settlementKey = (s: SettlementReport) => `${normalizeOrderName(s.orderName)}|${s.amountReceived}|${s.fees}|${s.status}`;
+
+export const mergeRecords = <T,>(
+  existing: T[],
+  incoming: T[],
+  keyOf: (record: T) => string,
+  dateOf: (record: T) => string,
+  mode: ImportMode
+): { records: T[]; summary: ImportSummary } => {
+  const summary: ImportSummary = { mode, added: 0, updated: 0, skipped: 0, removed: 0 };
+
+  // Collapse repeats inside the uploaded file itself; the last occurrence wins
+  const incomingByKey = new Map<string, T>();
+  incoming.forEach(record => {
+    const key = keyOf(record);
+    if (incomingByKey.has(key)) summary.skipped += 1;
+    incomingByKey.set(key, record);
+  });
+
+  let base = existing;
+  if (mode === 'replace_range') {
+    const dates = Array.from(incomingByKey.values()).map(dateOf).filter(Boolean).sort();
+    if (dates.length > 0) {
+      const [from, to] = [dates[0], dates[dates.length - 1]];
+      base = existing.filter(record => {
+        const d = dateOf(record);
+        return !d || d < from || d > to;
+      });
+      summary.removed = existing.length - base.length;
+    }
+  }
+
+  const existingIndex = new Map<string, number>();
+  base.forEach((record, i) => existingIndex.set(keyOf(record), i));
+
+  const records = [...base];
+  incomingByKey.forEach((record, key) => {
+    const idx = existingIndex.get(key);
+    if (idx === undefined) {
+      records.push(record);
+      summary.added += 1;
+    } else if (mode === 'skip_duplicates') {
+      summary.skipped += 1;
+    } else {
+      records[idx] = record;
+      summary.updated += 1;
+    }
+  });
+
+  // Rows dropped by the range replacement and re-supplied by the file are updates, not removals
+  if (mode === 'replace_range') {
+    const kept = new Set(base);
+    const removedKeys = new Set(existing.filter(r => !kept.has(r)).map(keyOf));
+    incomingByKey.forEach((_, key) => {
+      if (removedKeys.has(key)) {
+        summary.added -= 1;
+        summary.updated += 1;
+        summary.removed -= 1;
+      }
+    });
+  }
+
+  return { records, summary };
+};
@@ -0,0 +1,81 @@
+
+import { IMPORT_FIELDS, MappableReportType, ImportField } from './columnMapping';
+import { parseDateStr } from './dateUtils';
+
+export interface ValidationIssue {
+  row: number;
+  column: string;
+  field: string;
+  value: string;
+  message: string;
+  // Warnings are reported but do not keep the row out of the import
+  severity: 'error' | 'warning';
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  invalidRows: Set<number>;
+  validRows: any[];
+}
+
+const NUMERIC = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+// Shopify leaves order-level columns blank on every line item row after the first
+const ORDER_LEVEL_FIELDS = new Set(['id', 'date', 'total', 'subtotal', 'tax', 'shipping', 'discount', 'refunded', 'status', 'paymentMethod', 'currency']);
+
+const checkValue = (field: ImportField, value: string, required: boolean): Omit<ValidationIssue, 'row'> | null => {
+  const base = { column: field.aliases[0], field: field.label, value };
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    return required ? { ...base, message: `${field.label} is missing`, severity: 'error' } : null;
+  }
+  if (field.kind === 'date' && !parseDateStr(trimmed)) {
+    return { ...base, message: `"${trimmed}" is not a valid date`, severity: 'error' };
+  }
+  if ((field.kind === 'number' || field.kind === 'integer') && !NUMERIC.test(trimmed)) {
+    return { ...base, message: `"${trimmed}" is not a number`, severity: 'error' };
+  }
+  if (field.kind === 'integer' && parseFloat(trimmed) < 0) {
+    return { ...base, message: `${field.label} is negative`, severity: 'error' };
+  }
+  return null;
+};
+
+// Expects rows already re-keyed to canonical column names by applyMapping
+export const validateRows = (type: MappableReportType, rows: any[]): ValidationReport => {
+  const fields = IMPORT_FIELDS[type];
+  const issues: ValidationIssue[] = [];
+  const seenOrders = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const orderName = type === 'shopify_orders' ? row.Name || '' : '';
+    const isContinuation = type === 'shopify_orders' && seenOrders.has(orderName);
+    if (orderName) seenOrders.add(orderName);
+
+    fields.forEach(field => {
+      const value = row[field.aliases[0]];
+      if (value === undefined) return;
+      if (isContinuation && ORDER_LEVEL_FIELDS.has(field.key) && !value.trim()) return;
+      const issue = checkValue(field, value, !!field.required && !isContinuation);
+      if (issue) issues.push({ ...issue, row: index });
+    });
+
+    if (type === 'shopify_orders' && row['Lineitem sku'] !== undefined && !row['Lineitem sku'].trim()) {
+      issues.push({
+        row: index, column: 'Lineitem sku', field: 'Line item SKU', value: '',
+        message: 'SKU is missing; COGS cannot be matched for this item', severity: 'warning'
+      });
+    }
+  });
+
+  const invalidRows = new Set(issues.filter(i => i.severity === 'error').map(i => i.row));
+
+  // Dropping one line of a multi-row order would leave the rest mis-grouped, so drop the whole order
+  if (type === 'shopify_orders') {
+    const badOrders = new Set(Array.from(invalidRows).map(i => rows[i].Name).filter(Boolean));
+    rows.forEach((row, index) => { if (badOrders.has(row.Name)) invalidRows.add(index); });
+  }
+
+  return { issues, invalidRows, validRows: rows.filter((_, index) => !invalidRows.has(index)) };
+};
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { DashboardStats } from '../types';
+import { AuditInput } from './audit';
+import { ProductStats } from './products';
+import { ProfitTrendPoint } from './stats';
+import { breakEvenRoas, localInsights } from './insightRules';
+
+const stats = (overrides: Partial<DashboardStats> = {}): DashboardStats => ({
+  grossSales: 10000, totalDiscounts: 0, totalReturns: 0, totalSales: 10000, totalOrders: 100,
+  totalAdSpend: 2000, totalCogs: 4000, totalShipping: 500, totalFees: 500, totalOverheads: 0,
+  netProfit: 3000, roas: 5, netMargin: 30, aov: 100, returnRate: 0, refundedOrders: 0,
+  ...overrides
+});
+
+const product = (overrides: Partial<ProductStats>): ProductStats => ({
+  sku: 'SKU', title: 'Product', units: 10, revenue: 1000, unitCogs: 40, cogs: 400, grossProfit: 600, margin: 60,
+  missingCogs: false, belowCostUnits: 0, trend: [], ...overrides
+});
+
+const point = (date: string, overrides: Partial<ProfitTrendPoint> = {}): ProfitTrendPoint => ({
+  date, sales: 1000, adSpend: 200, cogs: 400, fees: 50, overheads: 100, netProfit: 200, margin: 20, ...overrides
+});
+
+const input = (overrides: Partial<AuditInput> = {}): AuditInput => ({
+  startDate: '2024-03-01', endDate: '2024-03-31', currency: 'USD', stats: stats(), feeLines: [],
+  campaigns: [], products: [], trend: [], granularity: 'day', ...overrides
+});
+
+const metrics = (audit: AuditInput) => localInsights(audit).insights.map(i => `${i.severity}:${i.metric}`);
+
+describe('breakEvenRoas', () => {
+  it('divides net sales by the contribution left after COGS and fees', () => {
+    expect(breakEvenRoas(input({ stats: stats({ totalCogs: 4500 }) }))).toBe(2);
+  });
+
+  it('is null when orders lose money before ads', () => {
+    expect(breakEvenRoas(input({ stats: stats({ totalCogs: 9500 }) }))).toBeNull();
+  });
+});
+
+describe('localInsights', () => {
+  it('flags ROAS below break-even and names the biggest campaign', () => {
+    const result = localInsights(input({
+      stats: stats({ roas: 1.5, totalAdSpend: 6667, netProfit: -1667, netMargin: -16.7 }),
+      campaigns: [
+        { campaignName: 'Small', spend: 100, impressions: 0, clicks: 0, ctr: 0, cpc: 0, cpm: 0, activeDays: 1 },
+        { campaignName: 'Big', spend: 6567, impressions: 0, clicks: 0, ctr: 0, cpc: 0, cpm: 0, activeDays: 1 }
+      ]
+    }));
+    const roas = result.insights.find(i => i.metric === 'ROAS');
+    expect(roas?.severity).toBe('critical');
+    expect(roas?.action).toContain('"Big"');
+    expect(result.insights.some(i => i.metric === 'Net profit')).toBe(true);
+  });
+
+  it('reports losses before ad spend instead of a break-even ROAS', () => {
+    expect(metrics(input({ stats: stats({ totalCogs: 9500, netProfit: -2500, netMargin: -25 }) })))
+      .toEqual(['critical:Contribution margin', 'critical:Net profit']);
+  });
+
+  it('praises profitable ads and a healthy margin', () => {
+    expect(metrics(input())).toEqual(['positive:ROAS', 'positive:Net margin']);
+  });
+
+  it('detects a rising COGS share between the halves of the period', () => {
+    const trend = [
+      point('2024-03-01'), point('2024-03-02'),
+      point('2024-03-03', { cogs: 500 }), point('2024-03-04', { cogs: 500 })
+    ];
+    expect(metrics(input({ trend }))).toContain('warning:COGS share');
+  });
+
+  it('flags a one-off overhead spike', () => {
+    const trend = ['01', '02', '03', '04', '05', '06', '07', '08'].map(d => point(`2024-03-${d}`, { overheads: d === '05' ? 400 : 100 }));
+    const spike = localInsights(input({ trend })).insights.find(i => i.metric === 'Overheads');
+    expect(spike?.detail).toContain('**$400** in 2024-03-05');
+  });
+
+  it('lists SKUs sold below cost and SKUs without COGS', () => {
+    const result = localInsights(input({
+      products: [
+        product({ sku: 'CHEAP', belowCostUnits: 3 }),
+        product({ sku: 'NOCOST', missingCogs: true, unitCogs: 0 }),
+        product({ sku: 'FINE' })
+      ]
+    }));
+    expect(result.insights.find(i => i.metric === 'Unit margin')?.detail).toContain('`CHEAP`');
+    expect(result.insights.find(i => i.metric === 'COGS coverage')?.detail).toContain('`NOCOST`');
+  });
+
+  it('warns about a high return rate', () => {
+    expect(metrics(input({ stats: stats({ returnRate: 12, refundedOrders: 9 }) }))).toContain('warning:Return rate');
+  });
+
+  it('orders insights by severity and gives the same answer for the same data', () => {
+    const audit = input({ stats: stats({ returnRate: 12, roas: 1.5 }), products: [product({ missingCogs: true })] });
+    expect(metrics(audit)).toEqual(['critical:ROAS', 'warning:Return rate', 'info:COGS coverage', 'positive:Net margin']);
+    expect(localInsights(audit)).toEqual(localInsights(audit));
+  });
+
+  it('has nothing to say without sales', () => {
+    const result = localInsights(input({ stats: stats({ totalSales: 0, grossSales: 0, totalAdSpend: 0, netProfit: 0, netMargin: 0, roas: 0 }) }));
+    expect(result.insights).toEqual([]);
+    expect(result.summary).toContain('No sales');
+  });
+});
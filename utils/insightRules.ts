@@ -0,0 +1,167 @@
+
+import { AuditInsight } from '../types';
+import { AuditInput, AuditResult, bySeverity } from './audit';
+import { bucketLabel } from './dateRanges';
+import { formatCurrency } from './currency';
+
+// Percentage points the COGS share has to move between halves of the period to be flagged
+const COGS_SHARE_RISE = 3;
+// A bucket's overheads count as a spike above this multiple of the typical bucket
+const OVERHEAD_SPIKE_RATIO = 1.5;
+const RETURN_RATE_WARNING = 10;
+const HEALTHY_MARGIN = 15;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Ad spend a sale can carry before it loses money: net sales over the contribution left after COGS and fees
+export const breakEvenRoas = (input: AuditInput) => {
+  const { stats } = input;
+  const contribution = stats.totalSales - stats.totalCogs - stats.totalFees;
+  return contribution > 0 ? stats.totalSales / contribution : null;
+};
+
+/**
+ * Heuristic audit computed entirely in the browser. Each rule looks at one
+ * metric and adds at most one insight, so the output is stable for the same data.
+ */
+export const localInsights = (input: AuditInput): AuditResult => {
+  const { stats, trend, products, campaigns, currency, granularity } = input;
+  const money = (amount: number) => formatCurrency(amount, currency);
+  const insights: AuditInsight[] = [];
+
+  const breakEven = breakEvenRoas(input);
+  if (stats.totalSales > 0 && breakEven === null) {
+    insights.push({
+      title: 'Orders lose money before any ad spend',
+      severity: 'critical',
+      metric: 'Contribution margin',
+      detail: `COGS and fees add up to **${money(stats.totalCogs + stats.totalFees)}** against **${money(stats.totalSales)}** of net sales.`,
+      action: 'Raise prices or cut unit costs before scaling ads; every extra order currently deepens the loss.'
+    });
+  } else if (breakEven !== null && stats.totalAdSpend > 0) {
+    const topCampaign = [...campaigns].sort((a, b) => b.spend - a.spend)[0];
+    if (stats.roas < breakEven) {
+      insights.push({
+        title: 'ROAS is below break-even',
+        severity: 'critical',
+        metric: 'ROAS',
+        detail: `ROAS is **${stats.roas.toFixed(2)}x** but the current margins need at least **${breakEven.toFixed(2)}x** to cover ad spend of ${money(stats.totalAdSpend)}.`,
+        action: topCampaign
+          ? `Cut or pause the weakest campaigns, starting with a review of "${topCampaign.campaignName}" (${money(topCampaign.spend)} spent).`
+          : 'Cut spend on the weakest campaigns until ROAS clears break-even.'
+      });
+    } else if (stats.roas < breakEven * 1.2) {
+      insights.push({
+        title: 'ROAS is close to break-even',
+        severity: 'warning',
+        metric: 'ROAS',
+        detail: `ROAS of **${stats.roas.toFixed(2)}x** leaves little room above the **${breakEven.toFixed(2)}x** break-even.`,
+        action: 'Hold budgets flat and shift spend towards the campaigns with the best CTR and CPC.'
+      });
+    } else {
+      insights.push({
+        title: 'Ads are profitable',
+        severity: 'positive',
+        metric: 'ROAS',
+        detail: `ROAS of **${stats.roas.toFixed(2)}x** is comfortably above the **${breakEven.toFixed(2)}x** break-even.`,
+        action: 'Test a gradual budget increase on the best performing campaigns.'
+      });
+    }
+  }
+
+  // First half of the period against the second, ignoring buckets without sales
+  const selling = trend.filter(t => t.sales > 0);
+  if (selling.length >= 4) {
+    const half = Math.floor(selling.length / 2);
+    const share = (points: typeof selling) =>
+      points.reduce((acc, t) => acc + t.cogs, 0) / points.reduce((acc, t) => acc + t.sales, 0) * 100;
+    const before = share(selling.slice(0, half));
+    const after = share(selling.slice(half));
+    if (after - before >= COGS_SHARE_RISE) {
+      insights.push({
+        title: 'COGS is taking a growing share of sales',
+        severity: 'warning',
+        metric: 'COGS share',
+        detail: `COGS rose from **${before.toFixed(1)}%** of net sales in the first half of the period to **${after.toFixed(1)}%** in the second.`,
+        action: 'Check for supplier price increases, heavier discounting or a shift towards low-margin SKUs.'
+      });
+    }
+  }
+
+  // Recurring expenses are prorated evenly, so a spike is usually a one-off expense
+  if (trend.length >= 3) {
+    const typical = median(trend.map(t => t.overheads));
+    const spikes = trend.filter(t => t.overheads > typical * OVERHEAD_SPIKE_RATIO);
+    if (typical > 0 && spikes.length > 0 && spikes.length <= trend.length / 4) {
+      const worst = spikes.reduce((a, b) => (b.overheads > a.overheads ? b : a));
+      insights.push({
+        title: 'Overhead spike',
+        severity: 'warning',
+        metric: 'Overheads',
+        detail: `Overheads reached **${money(worst.overheads)}** in ${bucketLabel(worst.date, granularity)} against a typical **${money(typical)}**${spikes.length > 1 ? `, one of ${spikes.length} spikes` : ''}.`,
+        action: 'Review the manual expenses dated in that period and confirm they are not duplicated or mis-dated.'
+      });
+    }
+  }
+
+  if (stats.totalSales > 0 && stats.netProfit < 0) {
+    insights.push({
+      title: 'The period ran at a loss',
+      severity: 'critical',
+      metric: 'Net profit',
+      detail: `Net profit is **${money(stats.netProfit)}** on ${money(stats.totalSales)} of net sales (${stats.netMargin.toFixed(1)}% margin).`,
+      action: 'Start with the largest cost in the P&L waterfall and set a target for it.'
+    });
+  } else if (stats.netMargin >= HEALTHY_MARGIN) {
+    insights.push({
+      title: 'Healthy net margin',
+      severity: 'positive',
+      metric: 'Net margin',
+      detail: `Net margin is **${stats.netMargin.toFixed(1)}%** after all costs.`,
+      action: 'Keep an eye on COGS and ad efficiency as you scale.'
+    });
+  }
+
+  if (stats.returnRate >= RETURN_RATE_WARNING) {
+    insights.push({
+      title: 'High return rate',
+      severity: 'warning',
+      metric: 'Return rate',
+      detail: `**${stats.returnRate.toFixed(1)}%** of gross sales came back as returns across ${stats.refundedOrders} refunded orders.`,
+      action: 'Look for the SKUs behind most refunds and check product descriptions, sizing and delivery quality.'
+    });
+  }
+
+  const belowCost = products.filter(p => p.belowCostUnits > 0);
+  if (belowCost.length > 0) {
+    insights.push({
+      title: 'Products sold below cost',
+      severity: 'warning',
+      metric: 'Unit margin',
+      detail: `${belowCost.length} SKU${belowCost.length > 1 ? 's' : ''} sold units below their unit COGS: ${belowCost.slice(0, 5).map(p => `\`${p.sku}\``).join(', ')}.`,
+      action: 'Review discounts and prices on these SKUs.'
+    });
+  }
+
+  const missing = products.filter(p => p.missingCogs);
+  if (missing.length > 0) {
+    insights.push({
+      title: 'COGS missing for some products',
+      severity: 'info',
+      metric: 'COGS coverage',
+      detail: `${missing.length} SKU${missing.length > 1 ? 's have' : ' has'} no unit cost, so profit is overstated: ${missing.slice(0, 5).map(p => `\`${p.sku}\``).join(', ')}.`,
+      action: 'Add their costs in the COGS ledger or import a cost CSV.'
+    });
+  }
+
+  const summary = stats.totalSales > 0
+    ? `**${money(stats.netProfit)}** net profit on **${money(stats.totalSales)}** of net sales (${stats.netMargin.toFixed(1)}% margin) across ${stats.totalOrders} orders.` +
+      (stats.totalAdSpend > 0 ? ` Ads returned **${stats.roas.toFixed(2)}x**${breakEven !== null ? ` against a break-even of ${breakEven.toFixed(2)}x` : ''}.` : '')
+    : 'No sales were recorded in this period, so there is nothing to audit yet.';
+
+  return { summary, insights: insights.sort(bySeverity) };
+};
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { FeeRule, ShopifyOrder } from '../types';
+import { computeOrderBreakdown } from './orders';
+
+const ORDER: ShopifyOrder = {
+  id: '1', name: '#1001', date: '2024-03-10', total: 110, subtotal: 100, tax: 0, shipping: 10, status: 'paid',
+  lineItems: [{ sku: 'MUG', title: 'Mug', quantity: 2, price: 50 }]
+};
+const GATEWAY: FeeRule = { id: 'gateway', name: 'Gateway', kind: 'percentage', percentage: 2, fixedAmount: 0, effectiveFrom: '2024-01-01' };
+
+const breakdown = (options: { feeRules?: FeeRule[]; settlementFees?: number; hasSettlements?: boolean; restockRefunds?: boolean }, order = ORDER) =>
+  computeOrderBreakdown(order, {
+    feeRules: options.feeRules || [], unitCost: () => 20, convertUsd: amount => amount,
+    settlementFees: options.settlementFees, hasSettlements: options.hasSettlements || false, restockRefunds: options.restockRefunds ?? true
+  });
+
+describe('computeOrderBreakdown', () => {
+  it('charges settlement fees instead of the rules', () => {
+    expect(breakdown({ feeRules: [GATEWAY], settlementFees: 4, hasSettlements: true })).toMatchObject({ fees: 4, feeSource: 'settlement', shipping: 10, profit: 56 });
+  });
+
+  it('keeps a settlement row without fees as a settled order', () => {
+    expect(breakdown({ feeRules: [GATEWAY], settlementFees: 0, hasSettlements: true })).toMatchObject({ fees: 0, feeSource: 'settlement' });
+  });
+
+  it('falls back to the rules for an order without a settlement row', () => {
+    expect(breakdown({ feeRules: [GATEWAY], hasSettlements: true })).toMatchObject({ fees: 2.2, feeSource: 'rules' });
+  });
+
+  it('estimates an unsettled order when there are no per-order rules', () => {
+    expect(breakdown({ hasSettlements: true })).toMatchObject({ fees: 3, feeSource: 'estimate' });
+    expect(breakdown({})).toMatchObject({ fees: 3, feeSource: 'estimate' });
+  });
+
+  it('leaves COGS out for restocked refunds and everything out for voided orders', () => {
+    expect(breakdown({}, { ...ORDER, status: 'refunded' })).toMatchObject({ netSales: 0, cogs: 0 });
+    expect(breakdown({ restockRefunds: false }, { ...ORDER, status: 'refunded' })).toMatchObject({ netSales: 0, cogs: 40 });
+    expect(breakdown({}, { ...ORDER, status: 'voided' })).toMatchObject({ netSales: 0, cogs: 0, fees: 0, shipping: 0, profit: 0 });
+  });
+});
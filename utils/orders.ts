@@ -0,0 +1,126 @@
+
+import { ShopifyOrder, FeeRule } from '../types';
+import { orderOutcome, orderRevenue, OrderOutcome } from './pnl';
+import { orderFeeForRule, usesFeeEstimate, ESTIMATED_FEE_RATE } from './fees';
+import { UnitCostLookup } from './attribution';
+import { compareValues, matchesSearch } from './sorting';
+
+export const ORDER_OUTCOME_LABELS: Record<OrderOutcome, string> = {
+  kept: 'Paid',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded',
+  voided: 'Voided',
+};
+
+export type OrderSortKey = 'name' | 'date' | 'items' | 'total' | 'status';
+
+export interface OrderQuery {
+  search: string;
+  outcome: OrderOutcome | 'all';
+  from: string;
+  to: string;
+  sortKey: OrderSortKey;
+  sortDesc: boolean;
+}
+
+const itemCount = (order: ShopifyOrder) => order.lineItems.reduce((acc, item) => acc + item.quantity, 0);
+
+const sortValue = (order: ShopifyOrder, key: OrderSortKey): string | number => {
+  switch (key) {
+    case 'items': return itemCount(order);
+    case 'total': return order.total;
+    case 'status': return order.status;
+    default: return order[key];
+  }
+};
+
+// Search matches the order name or any line item SKU
+export const queryOrders = (orders: ShopifyOrder[], query: OrderQuery) => {
+  const rows = orders.filter(order =>
+    matchesSearch(query.search, order.name, ...order.lineItems.map(item => item.sku)) &&
+    (query.outcome === 'all' || orderOutcome(order.status) === query.outcome) &&
+    (!query.from || order.date >= query.from) &&
+    (!query.to || order.date <= query.to)
+  );
+  return rows.sort((a, b) => {
+    const cmp = compareValues(sortValue(a, query.sortKey), sortValue(b, query.sortKey));
+    return query.sortDesc ? -cmp : cmp;
+  });
+};
+
+export interface OrderLineDetail {
+  sku: string;
+  title: string;
+  quantity: number;
+  price: number;
+  unitCogs: number;
+  cogs: number;
+}
+
+export interface OrderBreakdown {
+  outcome: OrderOutcome;
+  lines: OrderLineDetail[];
+  netSales: number;
+  discount: number;
+  returns: number;
+  cogs: number;
+  fees: number;
+  feeSource: 'settlement' | 'rules' | 'estimate';
+  shipping: number;
+  profit: number;
+}
+
+/**
+ * Order-level P&L using the same rules as the period totals. Monthly flat fees and
+ * overheads are not tied to a single order, so they are left out here. `settlementFees`
+ * is set whenever the order has a settlement row, even one without fees.
+ */
+export const computeOrderBreakdown = (
+  order: ShopifyOrder,
+  options: {
+    feeRules: FeeRule[]; unitCost: UnitCostLookup; convertUsd: (amount: number, date: string) => number;
+    settlementFees?: number; hasSettlements: boolean; restockRefunds: boolean;
+  }
+): OrderBreakdown => {
+  const { feeRules, unitCost, convertUsd, settlementFees, hasSettlements, restockRefunds } = options;
+  const outcome = orderOutcome(order.status);
+  const revenue = orderRevenue(order);
+
+  // Voided orders carry nothing, and fully refunded goods cost nothing once they are back in stock
+  const costed = outcome !== 'voided' && !(restockRefunds && outcome === 'refunded');
+  const lines = order.lineItems.map(item => {
+    const unitCogs = unitCost(item.sku, order.date);
+    return { sku: item.sku, title: item.title, quantity: item.quantity, price: item.price, unitCogs, cogs: costed ? unitCogs * item.quantity : 0 };
+  });
+  const cogs = lines.reduce((acc, line) => acc + line.cogs, 0);
+
+  // Same precedence as `computeFeeLines`: settlement fees replace the rules, which replace the estimate
+  let fees = 0;
+  let feeSource: OrderBreakdown['feeSource'] = 'rules';
+  if (outcome !== 'voided') {
+    if (settlementFees !== undefined) {
+      fees = settlementFees;
+      feeSource = 'settlement';
+    } else if (usesFeeEstimate(feeRules, hasSettlements)) {
+      fees = revenue.net * ESTIMATED_FEE_RATE;
+      feeSource = 'estimate';
+    } else {
+      fees = feeRules.reduce((acc, rule) => acc + orderFeeForRule(rule, order, convertUsd), 0);
+    }
+  }
+
+  // Shipping the customer paid goes to the courier; it is shown but, like net sales, left out of profit
+  const shipping = outcome === 'voided' ? 0 : order.shipping;
+  return {
+    outcome,
+    lines,
+    netSales: revenue.net,
+    discount: revenue.discount,
+    returns: revenue.returns,
+    cogs,
+    fees,
+    feeSource,
+    shipping,
+    profit: revenue.net - cogs - fees
+  };
+};
@@ -0,0 +1,106 @@
+
+import { ShopifyOrder, ShopifySalesRecord, DashboardStats } from '../types';
+
+export type OrderOutcome = 'kept' | 'partially_refunded' | 'refunded' | 'voided';
+
+// Shopify financial statuses plus the "Cancelled" wording some couriers and gateways export
+export const orderOutcome = (status: string): OrderOutcome => {
+  const s = (status || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (s.includes('void') || s.includes('cancel')) return 'voided';
+  if (s.includes('partially_refund')) return 'partially_refunded';
+  if (s.includes('refund')) return 'refunded';
+  return 'kept';
+};
+
+// Voided orders never took money, so they carry no revenue, COGS or fees
+export const isVoidedOrder = (order: ShopifyOrder) => orderOutcome(order.status) === 'voided';
+
+export interface RevenueBreakdown {
+  grossSales: number;
+  discounts: number;
+  returns: number;
+  netSales: number;
+  refundedOrders: number;
+  voidedOrders: number;
+}
+
+const orderGross = (order: ShopifyOrder) => order.subtotal > 0
+  ? order.subtotal + (order.discount || 0)
+  : order.lineItems.reduce((acc, item) => acc + item.price * item.quantity, 0);
+
+// A refunded order is reversed in full unless the export states the refunded amount
+export const orderRevenue = (order: ShopifyOrder) => {
+  const outcome = orderOutcome(order.status);
+  if (outcome === 'voided') return { gross: 0, discount: 0, returns: 0, net: 0 };
+  const gross = orderGross(order);
+  const discount = order.discount || 0;
+  const returns = order.refunded || (outcome === 'refunded' ? gross - discount : 0);
+  return { gross, discount, returns, net: gross - discount - returns };
+};
+
+/**
+ * Gross sales down to net sales. Shopify sales records carry discounts and returns directly
+ * (as negative amounts); without them, orders are used and a refunded order is reversed in full
+ * unless the export states the refunded amount.
+ */
+export const computeRevenueBreakdown = (orders: ShopifyOrder[], sales: ShopifySalesRecord[]): RevenueBreakdown => {
+  let refundedOrders = 0;
+  let voidedOrders = 0;
+  let grossSales = 0;
+  let discounts = 0;
+  let returns = 0;
+
+  orders.forEach(order => {
+    const outcome = orderOutcome(order.status);
+    if (outcome === 'voided') { voidedOrders++; return; }
+    if (outcome !== 'kept') refundedOrders++;
+    if (sales.length > 0) return;
+    const revenue = orderRevenue(order);
+    grossSales += revenue.gross;
+    discounts += revenue.discount;
+    returns += revenue.returns;
+  });
+
+  if (sales.length > 0) {
+    sales.forEach(record => {
+      // Older imports may only have mapped "Total sales"
+      grossSales += record.grossSales || record.totalSales;
+      discounts += Math.abs(record.discounts);
+      returns += Math.abs(record.returns);
+    });
+  }
+
+  return { grossSales, discounts, returns, netSales: grossSales - discounts - returns, refundedOrders, voidedOrders };
+};
+
+export interface WaterfallStep {
+  name: string;
+  // Invisible offset the visible bar is stacked on
+  base: number;
+  value: number;
+  kind: 'total' | 'deduction';
+}
+
+export const pnlWaterfall = (stats: DashboardStats): WaterfallStep[] => {
+  const steps: WaterfallStep[] = [];
+  let running = 0;
+  const total = (name: string, amount: number) => {
+    running = amount;
+    steps.push({ name, base: Math.min(0, amount), value: Math.abs(amount), kind: 'total' });
+  };
+  const deduct = (name: string, amount: number) => {
+    steps.push({ name, base: Math.min(running, running - amount), value: Math.abs(amount), kind: 'deduction' });
+    running -= amount;
+  };
+
+  total('Gross Sales', stats.grossSales);
+  deduct('Discounts', stats.totalDiscounts);
+  deduct('Returns', stats.totalReturns);
+  total('Net Sales', stats.totalSales);
+  deduct('COGS', stats.totalCogs);
+  deduct('Ads', stats.totalAdSpend);
+  deduct('Fees', stats.totalFees);
+  deduct('Overheads', stats.totalOverheads);
+  total('Net Profit', stats.netProfit);
+  return steps;
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { ShopifyOrder } from '../types';
+import { aggregateProducts, rollupSkus } from './products';
+import { computePeriodStats } from './stats';
+import { computeSkuAttribution } from './attribution';
+
+const ORDERS: ShopifyOrder[] = [
+  { id: '1', name: '#1001', date: '2024-03-01', total: 130, subtotal: 130, tax: 0, shipping: 0, status: 'paid', lineItems: [
+    { sku: 'MUG', title: 'Mug', quantity: 2, price: 40 },
+    { sku: 'CAP', title: 'Cap', quantity: 1, price: 50 }
+  ] },
+  { id: '2', name: '#1002', date: '2024-03-20', total: 40, subtotal: 40, tax: 0, shipping: 0, status: 'paid', lineItems: [
+    { sku: 'MUG', title: 'Mug', quantity: 1, price: 40 }
+  ] }
+];
+
+// The mug gets dearer mid-month
+const unitCost = (sku: string, date: string) => sku === 'MUG' ? (date < '2024-03-15' ? 10 : 25) : 60;
+
+describe('aggregateProducts', () => {
+  const products = aggregateProducts(ORDERS, unitCost, true, sku => sku === 'MUG', '2024-03-01', '2024-03-31', 'month');
+  const mug = products.find(p => p.sku === 'MUG')!;
+  const cap = products.find(p => p.sku === 'CAP')!;
+
+  it('weights unit COGS by quantity across cost changes', () => {
+    expect(mug).toMatchObject({ units: 3, revenue: 120, cogs: 45, unitCogs: 15, grossProfit: 75, trend: [120] });
+  });
+
+  it('flags units sold below cost and SKUs without COGS', () => {
+    expect(cap).toMatchObject({ belowCostUnits: 1, missingCogs: true });
+    expect(mug).toMatchObject({ belowCostUnits: 0, missingCogs: false });
+  });
+
+  it('agrees with the attribution rollup on units, revenue and COGS', () => {
+    const attribution = computeSkuAttribution(ORDERS, [], [], unitCost, true);
+    attribution.rows.forEach(row => {
+      const product = products.find(p => p.sku === row.sku)!;
+      expect([row.units, row.revenue, row.cogs]).toEqual([product.units, product.revenue, product.cogs]);
+    });
+  });
+});
+
+describe('rollupSkus with refunds', () => {
+  const refunded: ShopifyOrder = { ...ORDERS[1], id: '3', name: '#1003', status: 'refunded' };
+  const partial: ShopifyOrder = { ...ORDERS[1], id: '4', name: '#1004', status: 'partially_refunded', refunded: 10 };
+
+  it('reverses a fully refunded order and costs it only when the goods are not restocked', () => {
+    expect(rollupSkus([refunded], unitCost, true)[0]).toMatchObject({ units: 0, revenue: 0, cogs: 0 });
+    expect(rollupSkus([refunded], unitCost, false)[0]).toMatchObject({ units: 0, revenue: 0, cogs: 25 });
+  });
+
+  it('keeps the unrefunded share of a partial refund', () => {
+    expect(rollupSkus([partial], unitCost, true)[0]).toMatchObject({ units: 1, revenue: 30, cogs: 25 });
+  });
+
+  it('matches the net sales and COGS of the P&L', () => {
+    const orders = [...ORDERS, refunded, partial];
+    const { stats } = computePeriodStats({
+      startDate: '2024-03-01', endDate: '2024-03-31', orders, sales: [], ads: [], settlements: [], expenses: [], feeRules: [],
+      unitCost, convertUsd: (amount) => amount, restockRefunds: true
+    });
+    const rows = rollupSkus(orders, unitCost, true);
+    expect(rows.reduce((acc, r) => acc + r.revenue, 0)).toBeCloseTo(stats.totalSales);
+    expect(rows.reduce((acc, r) => acc + r.cogs, 0)).toBeCloseTo(stats.totalCogs);
+  });
+});
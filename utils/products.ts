@@ -0,0 +1,85 @@
+
+import { ShopifyOrder } from '../types';
+import { UnitCostLookup } from './attribution';
+import { bucketKey, bucketRange, Granularity } from './dateRanges';
+import { orderOutcome, orderRevenue } from './pnl';
+
+export interface SkuRollup {
+  sku: string;
+  title: string;
+  units: number;
+  revenue: number;
+  cogs: number;
+  belowCostUnits: number;
+  // Revenue per date bucket; empty unless buckets were asked for
+  trend: number[];
+}
+
+export interface ProductStats extends SkuRollup {
+  unitCogs: number;
+  grossProfit: number;
+  margin: number;
+  missingCogs: boolean;
+}
+
+/**
+ * Rolls order line items up per SKU, costing each line at its order date. The product
+ * leaderboard and campaign attribution both start from this, so their totals agree.
+ * Refunds are treated as in the order drawer: line revenue shrinks by the refunded share of
+ * the order, a fully refunded order sells no units, and its goods are only costed when they
+ * are not restocked.
+ */
+export const rollupSkus = (
+  orders: ShopifyOrder[],
+  unitCost: UnitCostLookup,
+  restockRefunds: boolean,
+  buckets?: { startDate: string; endDate: string; granularity: Granularity }
+): SkuRollup[] => {
+  const keys = buckets ? bucketRange(buckets.startDate, buckets.endDate, buckets.granularity) : [];
+  const indexOf = new Map(keys.map((key, i) => [key, i]));
+
+  const bySku = new Map<string, SkuRollup>();
+  orders.forEach(order => {
+    const outcome = orderOutcome(order.status);
+    if (outcome === 'voided') return;
+    const bucket = buckets ? indexOf.get(bucketKey(order.date, buckets.granularity)) ?? 0 : -1;
+    const revenue = orderRevenue(order);
+    const paid = revenue.gross - revenue.discount;
+    const keptShare = paid > 0 ? Math.min(1, Math.max(0, revenue.net / paid)) : 1;
+    const sold = outcome !== 'refunded';
+    const costed = !(restockRefunds && outcome === 'refunded');
+    order.lineItems.forEach(item => {
+      const row = bySku.get(item.sku) || {
+        sku: item.sku, title: item.title, units: 0, revenue: 0, cogs: 0, belowCostUnits: 0, trend: new Array(keys.length).fill(0)
+      };
+      const cost = unitCost(item.sku, order.date);
+      const lineRevenue = item.price * item.quantity * keptShare;
+      if (sold) row.units += item.quantity;
+      row.revenue += lineRevenue;
+      if (costed) row.cogs += cost * item.quantity;
+      if (sold && cost > 0 && item.price < cost) row.belowCostUnits += item.quantity;
+      if (bucket >= 0) row.trend[bucket] += lineRevenue;
+      bySku.set(item.sku, row);
+    });
+  });
+  return Array.from(bySku.values());
+};
+
+// Unit COGS is the quantity-weighted average over the period so it stays correct when the cost changes mid-range
+// (refunded goods that are not restocked raise it, since their cost lands on the units that were kept)
+export const aggregateProducts = (
+  orders: ShopifyOrder[],
+  unitCost: UnitCostLookup,
+  restockRefunds: boolean,
+  hasCogs: (sku: string) => boolean,
+  startDate: string,
+  endDate: string,
+  granularity: Granularity
+): ProductStats[] =>
+  rollupSkus(orders, unitCost, restockRefunds, { startDate, endDate, granularity }).map(row => ({
+    ...row,
+    unitCogs: row.units > 0 ? row.cogs / row.units : 0,
+    grossProfit: row.revenue - row.cogs,
+    margin: row.revenue > 0 ? ((row.revenue - row.cogs) / row.revenue) * 100 : 0,
+    missingCogs: !hasCogs(row.sku)
+  }));
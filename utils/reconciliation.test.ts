@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeSettlementStatus } from './reconciliation';
+
+describe('normalizeSettlementStatus', () => {
+  it.each(['Settled', 'Paid', 'Completed', 'Remitted', 'Deposited', 'SUCCESS', 'payment_complete'])('treats "%s" as settled', raw => {
+    expect(normalizeSettlementStatus(raw)).toBe('settled');
+  });
+
+  it.each(['Unpaid', 'Unsettled', 'Not remitted', 'not-paid', 'Incomplete', 'Pending payout', 'Awaiting deposit', 'In transit', ''])('treats "%s" as pending', raw => {
+    expect(normalizeSettlementStatus(raw)).toBe('pending');
+  });
+
+  it.each(['Failed', 'Returned', 'RTO', 'Rejected', 'Cancelled'])('treats "%s" as failed', raw => {
+    expect(normalizeSettlementStatus(raw)).toBe('failed');
+  });
+});
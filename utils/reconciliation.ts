@@ -0,0 +1,89 @@
+
+import { ShopifyOrder, SettlementReport } from '../types';
+
+export type ReconciliationStatus = SettlementReport['status'] | 'missing';
+
+export interface ReconciliationRow {
+  orderName: string;
+  date: string;
+  orderTotal: number;
+  amountReceived: number;
+  fees: number;
+  outstanding: number;
+  status: ReconciliationStatus;
+}
+
+export interface ReconciliationSummary {
+  rows: ReconciliationRow[];
+  unmatched: SettlementReport[];
+  counts: Record<ReconciliationStatus, number>;
+  totalExpected: number;
+  totalReceived: number;
+  totalFees: number;
+  totalOutstanding: number;
+}
+
+// Couriers and gateways rarely agree with Shopify on the "#" prefix or casing
+export const normalizeOrderName = (name: string) => name.trim().replace(/^#/, '').toUpperCase();
+
+export const normalizeSettlementStatus = (raw: string): SettlementReport['status'] => {
+  const s = (raw || '').toLowerCase().replace(/[_-]+/g, ' ');
+  if (/(fail|return|reject|cancel|\brto\b)/.test(s)) return 'failed';
+  // Negations come first: "Not remitted" and "Awaiting deposit" are still open
+  if (/\b(not|pending|awaiting)\b/.test(s)) return 'pending';
+  // Anchored to the start of a word so "Unpaid", "Unsettled" and "Incomplete" do not count
+  if (/\b(settled|paid|complete|remit|deposit|success)/.test(s)) return 'settled';
+  return 'pending';
+};
+
+export const reconcileSettlements = (orders: ShopifyOrder[], settlements: SettlementReport[]): ReconciliationSummary => {
+  // An order can be remitted in several payouts, so collapse rows per order first
+  const byOrder = new Map<string, SettlementReport[]>();
+  settlements.forEach(s => {
+    const key = normalizeOrderName(s.orderName);
+    byOrder.set(key, [...(byOrder.get(key) || []), s]);
+  });
+
+  const matchedKeys = new Set<string>();
+  const rows: ReconciliationRow[] = orders.map(order => {
+    const key = normalizeOrderName(order.name);
+    const entries = byOrder.get(key);
+
+    if (!entries) {
+      return {
+        orderName: order.name,
+        date: order.date,
+        orderTotal: order.total,
+        amountReceived: 0,
+        fees: 0,
+        outstanding: order.total,
+        status: 'missing'
+      };
+    }
+
+    matchedKeys.add(key);
+    const amountReceived = entries.reduce((acc, curr) => acc + curr.amountReceived, 0);
+    const fees = entries.reduce((acc, curr) => acc + curr.fees, 0);
+    const status: SettlementReport['status'] = entries.some(e => e.status === 'settled')
+      ? 'settled'
+      : entries.every(e => e.status === 'failed') ? 'failed' : 'pending';
+
+    // Failed deliveries are returned to stock, so nothing is owed on them
+    const outstanding = status === 'failed' ? 0 : Math.max(0, order.total - fees - amountReceived);
+
+    return { orderName: order.name, date: order.date, orderTotal: order.total, amountReceived, fees, outstanding, status };
+  });
+
+  const counts: Record<ReconciliationStatus, number> = { settled: 0, pending: 0, failed: 0, missing: 0 };
+  rows.forEach(r => { counts[r.status] += 1; });
+
+  return {
+    rows,
+    unmatched: settlements.filter(s => !matchedKeys.has(normalizeOrderName(s.orderName))),
+    counts,
+    totalExpected: rows.reduce((acc, curr) => acc + (curr.status === 'failed' ? 0 : curr.orderTotal), 0),
+    totalReceived: rows.reduce((acc, curr) => acc + curr.amountReceived, 0),
+    totalFees: rows.reduce((acc, curr) => acc + curr.fees, 0),
+    totalOutstanding: rows.reduce((acc, curr) => acc + curr.outstanding, 0)
+  };
+};
@@ -0,0 +1,44 @@
+
+import { ShopifyOrder, LineItem, Currency } from '../types';
+import { getTodayStr, parseDateStr } from './dateUtils';
+import { isCurrency } from './currency';
+
+const toLineItem = (row: any): LineItem => ({
+  sku: row.SKU || row['Lineitem sku'] || 'UNKNOWN',
+  title: row['Lineitem name'] || row.Title || 'Product',
+  quantity: parseInt(row['Lineitem quantity'] || row.Quantity) || 1,
+  price: parseFloat(row['Lineitem price'] || row.Price) || 0
+});
+
+// Shopify exports one row per line item and only fills totals on the first row of each order
+export const mapShopifyOrderRows = (rows: any[], defaultCurrency: Currency, timeZone?: string): ShopifyOrder[] => {
+  const grouped = new Map<string, ShopifyOrder>();
+
+  rows.forEach((row, idx) => {
+    const key = row.Name || row.Id || `Order-${idx}`;
+    const existing = grouped.get(key);
+
+    if (existing) {
+      existing.lineItems.push(toLineItem(row));
+      return;
+    }
+
+    grouped.set(key, {
+      id: row.Id || row.Name || idx.toString(),
+      name: row.Name || `Order-${idx}`,
+      date: parseDateStr(row['Created at'] || row.Date, timeZone) || getTodayStr(timeZone),
+      total: parseFloat(row.Total || row['Total price']) || 0,
+      subtotal: parseFloat(row.Subtotal || row['Subtotal price']) || 0,
+      tax: parseFloat(row.Tax || row.Taxes || row['Total tax']) || 0,
+      shipping: parseFloat(row.Shipping || row['Shipping cost']) || 0,
+      discount: Math.abs(parseFloat(row['Discount Amount'] || row.Discount) || 0),
+      refunded: Math.abs(parseFloat(row['Refunded Amount'] || row.Refunded) || 0),
+      status: row['Financial Status'] || row.Status || 'Paid',
+      paymentMethod: row['Payment Method'] || row['Payment Gateway'] || row.Gateway || undefined,
+      currency: isCurrency(row.Currency) ? row.Currency : defaultCurrency,
+      lineItems: [toLineItem(row)]
+    });
+  });
+
+  return Array.from(grouped.values());
+};
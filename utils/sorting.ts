@@ -0,0 +1,24 @@
+
+export interface SortState<K extends string> {
+  key: K;
+  desc: boolean;
+}
+
+// Text columns sort alphabetically, everything else numerically
+export const compareValues = (a: unknown, b: unknown) =>
+  typeof a === 'string' ? a.localeCompare(b as string) : (a as number) - (b as number);
+
+export const sortRows = <T,>(rows: T[], key: keyof T, desc: boolean) =>
+  [...rows].sort((a, b) => {
+    const cmp = compareValues(a[key], b[key]);
+    return desc ? -cmp : cmp;
+  });
+
+// The active column flips direction; a new column starts with the largest values unless it holds text
+export const nextSort = <K extends string>(sort: SortState<K>, key: K, textKeys: K[]): SortState<K> =>
+  key === sort.key ? { key, desc: !sort.desc } : { key, desc: !textKeys.includes(key) };
+
+export const matchesSearch = (query: string, ...fields: string[]) => {
+  const q = query.trim().toLowerCase();
+  return !q || fields.some(field => field.toLowerCase().includes(q));
+};
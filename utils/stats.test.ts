@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { ManualExpense, SettlementReport, ShopifyOrder } from '../types';
+import { computePeriodStats, PeriodInput, profitTrend } from './stats';
+
+const order = (name: string, date: string, total: number): ShopifyOrder => ({
+  id: name, name, date, total, subtotal: total, tax: 0, shipping: 0, status: 'paid',
+  lineItems: [{ sku: 'MUG', title: 'Mug', quantity: 1, price: total }]
+});
+
+const settlement = (orderName: string, fees: number): SettlementReport => ({ orderName, amountReceived: 0, fees, status: 'settled' });
+
+const rent: ManualExpense = { id: 'rent', category: 'Rent', amount: 310, note: '', recurrence: 'monthly', startDate: '2024-01-01' };
+
+const input = (overrides: Partial<PeriodInput> = {}): PeriodInput => ({
+  startDate: '2024-03-01', endDate: '2024-03-31',
+  orders: [order('#1001', '2024-03-02', 100), order('#1002', '2024-03-11', 200), order('#1003', '2024-03-25', 300)],
+  sales: [], ads: [], settlements: [settlement('#1001', 4), settlement('#1003', 9)],
+  expenses: [rent], feeRules: [],
+  unitCost: () => 20,
+  convertUsd: (amount) => amount,
+  restockRefunds: true,
+  ...overrides
+});
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+describe('profitTrend', () => {
+  it('adds up to the P&L for the whole range', () => {
+    const { stats } = computePeriodStats(input());
+    const trend = profitTrend(input(), 'week');
+    expect(sum(trend.map(t => t.sales))).toBeCloseTo(stats.totalSales);
+    expect(sum(trend.map(t => t.fees))).toBeCloseTo(stats.totalFees);
+    expect(sum(trend.map(t => t.overheads))).toBeCloseTo(stats.totalOverheads);
+    expect(sum(trend.map(t => t.netProfit))).toBeCloseTo(stats.netProfit);
+  });
+
+  it('charges settlement fees to the bucket of the order they pay out', () => {
+    const trend = profitTrend(input(), 'day');
+    const fees = (date: string) => trend.find(t => t.date === date)?.fees;
+    expect(fees('2024-03-02')).toBe(4);
+    // No settlement row yet, so the order gets the 3% estimate
+    expect(fees('2024-03-11')).toBeCloseTo(6);
+    expect(fees('2024-03-25')).toBe(9);
+    expect(trend.find(t => t.date === '2024-03-15')?.overheads).toBeCloseTo(10);
+  });
+});
@@ -0,0 +1,191 @@
+
+import { ShopifyOrder, ShopifySalesRecord, MetaAdReport, SettlementReport, ManualExpense, FeeRule, FeeLine, DashboardStats } from '../types';
+import { computeRevenueBreakdown, isVoidedOrder, orderOutcome, RevenueBreakdown } from './pnl';
+import { computeFeeLines } from './fees';
+import { expenseAmountInRange } from './expenses';
+import { reconcileSettlements, normalizeOrderName, ReconciliationSummary } from './reconciliation';
+import { UnitCostLookup } from './attribution';
+import { bucketKey, bucketEnd, bucketRange, Granularity } from './dateRanges';
+import { addDays } from './dateUtils';
+
+// Every amount is expected in the display currency; `convertUsd` handles the USD-entered manual costs
+export interface PeriodInput {
+  startDate: string;
+  endDate: string;
+  orders: ShopifyOrder[];
+  sales: ShopifySalesRecord[];
+  ads: MetaAdReport[];
+  settlements: SettlementReport[];
+  expenses: ManualExpense[];
+  feeRules: FeeRule[];
+  unitCost: UnitCostLookup;
+  convertUsd: (amount: number, date: string) => number;
+  restockRefunds: boolean;
+}
+
+export interface PeriodStats {
+  stats: DashboardStats;
+  revenue: RevenueBreakdown;
+  billableOrders: ShopifyOrder[];
+  feeLines: FeeLine[];
+  reconciliation: ReconciliationSummary;
+}
+
+type SettlementFees = { amount: number; orderNames: Set<string> };
+
+// Fee amount and matched order names for the orders a set of reconciliation rows covers
+const settlementFeesFor = (rows: ReconciliationSummary['rows']): SettlementFees => ({
+  amount: rows.reduce((acc, curr) => acc + curr.fees, 0),
+  orderNames: new Set(rows.filter(r => r.status !== 'missing').map(r => normalizeOrderName(r.orderName)))
+});
+
+// Everything except settlement matching and overhead proration, which callers work out for the window
+const summarizePeriod = (input: PeriodInput, settlementFees: SettlementFees | undefined, totalExpenses: number) => {
+  const { startDate, endDate, orders, sales, ads, feeRules, unitCost, convertUsd, restockRefunds } = input;
+
+  // Priority: Sales Records for accuracy, fallback to Orders
+  const revenue = computeRevenueBreakdown(orders, sales);
+  const billableOrders = orders.filter(o => !isVoidedOrder(o));
+
+  // One line per fee source so the dashboard can show where each cost came from
+  const feeLines = computeFeeLines(billableOrders, feeRules, startDate, endDate, {
+    settlementFees,
+    estimateBase: revenue.netSales,
+    convertFixed: convertUsd
+  });
+
+  // Net sales leave out shipping and taxes, so the shipping customers pay is not deducted from them either
+  const totalSales = revenue.netSales;
+  const totalAdSpend = ads.reduce((acc, curr) => acc + curr.spend, 0);
+
+  const totalShipping = sales.length > 0
+    ? sales.reduce((acc, curr) => acc + curr.shipping, 0)
+    : billableOrders.reduce((acc, curr) => acc + curr.shipping, 0);
+
+  // COGS must be calculated from Orders (where SKU is present); fully refunded goods only drop out when they are restocked
+  let totalCogsVal = 0;
+  billableOrders.filter(o => !restockRefunds || orderOutcome(o.status) !== 'refunded').forEach(order => {
+    order.lineItems.forEach(item => {
+      totalCogsVal += unitCost(item.sku, order.date) * item.quantity;
+    });
+  });
+
+  const totalFees = feeLines.reduce((acc, curr) => acc + curr.amount, 0);
+  const netProfit = totalSales - totalAdSpend - totalCogsVal - totalExpenses - totalFees;
+  const roas = totalAdSpend > 0 ? totalSales / totalAdSpend : 0;
+  const netMargin = totalSales > 0 ? (netProfit / totalSales) * 100 : 0;
+  const aov = billableOrders.length > 0 ? totalSales / billableOrders.length : 0;
+
+  const stats: DashboardStats = {
+    grossSales: revenue.grossSales,
+    totalDiscounts: revenue.discounts,
+    totalReturns: revenue.returns,
+    totalSales,
+    totalOrders: billableOrders.length,
+    totalAdSpend,
+    totalCogs: totalCogsVal,
+    totalShipping,
+    totalFees,
+    totalOverheads: totalExpenses,
+    netProfit,
+    roas,
+    netMargin,
+    aov,
+    returnRate: revenue.grossSales > 0 ? (revenue.returns / revenue.grossSales) * 100 : 0,
+    refundedOrders: revenue.refundedOrders
+  };
+
+  return { stats, revenue, billableOrders, feeLines };
+};
+
+/**
+ * Full P&L for one date window. The dashboard runs it for the selected range and
+ * again for the comparison range, so both sides are always computed the same way.
+ */
+export const computePeriodStats = (input: PeriodInput): PeriodStats => {
+  const { startDate, endDate, orders, settlements, expenses, convertUsd } = input;
+
+  // Settlements are matched to orders rather than dated, so they follow the orders they pay out
+  const reconciliation = reconcileSettlements(orders, settlements);
+
+  // Overheads are prorated into the selected window by their dates and recurrence
+  const totalExpenses = expenses.reduce((acc, curr) => acc + expenseAmountInRange(curr, startDate, endDate, convertUsd), 0);
+
+  const period = summarizePeriod(input, settlements.length > 0 ? settlementFeesFor(reconciliation.rows) : undefined, totalExpenses);
+  return { ...period, reconciliation };
+};
+
+// Daily sales for the revenue chart, from sales records when available
+export const dailySales = (orders: ShopifyOrder[], sales: ShopifySalesRecord[]) => {
+  const byDate = new Map<string, number>();
+  const source = sales.length > 0
+    ? sales.map(s => ({ date: s.date, sales: s.totalSales }))
+    : orders.map(o => ({ date: o.date, sales: o.total }));
+  source.forEach(item => byDate.set(item.date, (byDate.get(item.date) || 0) + item.sales));
+  return byDate;
+};
+
+export interface ProfitTrendPoint {
+  date: string;
+  sales: number;
+  adSpend: number;
+  cogs: number;
+  fees: number;
+  overheads: number;
+  netProfit: number;
+  margin: number;
+}
+
+/**
+ * Splits the P&L into buckets that add up to the headline numbers. Settlements are
+ * reconciled and overheads prorated once for the whole range, then handed to the
+ * bucket their orders or days fall in, so long daily series stay cheap.
+ */
+export const profitTrend = (input: PeriodInput, granularity: Granularity): ProfitTrendPoint[] => {
+  const group = <T,>(records: T[], dateOf: (r: T) => string) => {
+    const byKey = new Map<string, T[]>();
+    records.forEach(r => {
+      const key = bucketKey(dateOf(r), granularity);
+      const list = byKey.get(key);
+      if (list) list.push(r);
+      else byKey.set(key, [r]);
+    });
+    return byKey;
+  };
+  const orders = group(input.orders, o => o.date);
+  const sales = group(input.sales, s => s.date);
+  const ads = group(input.ads, a => a.date);
+  const reconciliationRows = group(reconcileSettlements(input.orders, input.settlements).rows, r => r.date);
+
+  const overheads = new Map<string, number>();
+  input.expenses.forEach(expense => {
+    for (let day = input.startDate; day <= input.endDate; day = addDays(day, 1)) {
+      const amount = expenseAmountInRange(expense, day, day, input.convertUsd);
+      if (amount === 0) continue;
+      const key = bucketKey(day, granularity);
+      overheads.set(key, (overheads.get(key) || 0) + amount);
+    }
+  });
+
+  return bucketRange(input.startDate, input.endDate, granularity).map(key => {
+    // The first and last buckets are clipped to the selected range
+    const start = key < input.startDate ? input.startDate : key;
+    const last = bucketEnd(key, granularity);
+    const end = last > input.endDate ? input.endDate : last;
+    const { stats } = summarizePeriod(
+      { ...input, startDate: start, endDate: end, orders: orders.get(key) || [], sales: sales.get(key) || [], ads: ads.get(key) || [] },
+      input.settlements.length > 0 ? settlementFeesFor(reconciliationRows.get(key) || []) : undefined,
+      overheads.get(key) || 0
+    );
+    return {
+      date: key,
+      sales: stats.totalSales,
+      adSpend: stats.totalAdSpend,
+      cogs: stats.totalCogs,
+      fees: stats.totalFees,
+      overheads: stats.totalOverheads,
+      netProfit: stats.netProfit,
+      margin: stats.netMargin
+    };
+  });
+};
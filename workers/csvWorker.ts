@@ -0,0 +1,42 @@
+
+import { CsvStreamParser, rowsToRecords } from '../utils/csvParser';
+
+export type CsvWorkerMessage =
+  | { type: 'rows'; records: any[] }
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'done'; rowCount: number }
+  | { type: 'error'; message: string };
+
+const post = (message: CsvWorkerMessage) => self.postMessage(message);
+
+// Streams the file through the parser so large exports never sit in memory as one string
+self.onmessage = async (event: MessageEvent<{ file: File }>) => {
+  try {
+    const { file } = event.data;
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder();
+    const parser = new CsvStreamParser();
+    let headers: string[] | null = null;
+    let loaded = 0;
+    let rowCount = 0;
+
+    const emit = (rows: string[][]) => {
+      if (!headers && rows.length > 0) headers = rows.shift()!;
+      if (!headers || rows.length === 0) return;
+      rowCount += rows.length;
+      post({ type: 'rows', records: rowsToRecords(headers, rows) });
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      loaded += value.byteLength;
+      emit(parser.push(decoder.decode(value, { stream: true })));
+      post({ type: 'progress', loaded, total: file.size });
+    }
+    emit([...parser.push(decoder.decode()), ...parser.flush()]);
+    post({ type: 'done', rowCount });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};